@@ -1,59 +1,66 @@
 /**
- * ammo-system.ts - modular ammo management system
- * handles magazine/reserve ammo, reloading mechanics, and state management
+ * ammo-system.ts - client-side weapon and ammo display and prediction
+ * the server owns the equipped weapon, magazine, reserve and reload state; this module
+ * mirrors the last confirmed values and predicts shots and reloads the server has not acknowledged yet
  */
 
 import type { Text } from 'pixi.js';
-import { getAmmoConfig } from './constants-loader.js';
+import type { AmmoState, WeaponDefinition } from './types.js';
+import { getWeaponConfig, getWeaponRegistry } from './constants-loader.js';
+
+// Load weapon configuration from backend
+const weaponConfig = await getWeaponConfig();
+const WEAPON_CONFIG = weaponConfig || {
+    DEFAULT_WEAPON: 'rifle',
+    STARTING_WEAPONS: ['rifle'],
+};
+const weaponRegistry = await getWeaponRegistry();
+const WEAPON_REGISTRY: Record<string, WeaponDefinition> = weaponRegistry || {
+    rifle: {
+        NAME: 'Rifle',
+        COOLDOWN_MS: 100,
+        MAGAZINE_SIZE: 30,
+        STARTING_RESERVE: 240,
+        RELOAD_TIME_MS: 3000,
+        PROJECTILE_SPRITE: 'images/bullet.png',
+    },
+};
 
 // ===== AMMO STATE =====
-interface AmmoState {
-    magazine: number;
-    reserve: number;
-    isReloading: boolean;
-    reloadStartTime: number;
-    lastShotTime: number;
-}
 
-// Load ammo configuration from backend
-const ammoConfig = await getAmmoConfig();
-const AMMO_CONFIG = ammoConfig || {
-    MAX_MAGAZINE: 30,
-    STARTING_RESERVE: 240,
-    RELOAD_TIME_MS: 3000,
-    SHOOTING_COOLDOWN: 100,
-};
+// last weapon state confirmed by the server
+let equippedWeaponId: string = WEAPON_CONFIG.DEFAULT_WEAPON;
+let carriedWeaponIds: string[] = [...WEAPON_CONFIG.STARTING_WEAPONS];
+let serverAmmo: AmmoState = createFullAmmo(equippedWeaponId);
 
-let ammoState: AmmoState = {
-    magazine: AMMO_CONFIG.MAX_MAGAZINE,
-    reserve: AMMO_CONFIG.STARTING_RESERVE,
-    isReloading: false,
-    reloadStartTime: 0,
-    lastShotTime: 0,
-};
+// input sequences that fired or requested a reload but are not acknowledged yet
+let pendingShots: number[] = [];
+let pendingReloadSequence: number | null = null;
+let lastShotTime = 0;
 
 // ===== PUBLIC INTERFACE =====
 
 /**
- * Check if player can fire (has ammo, not reloading, and not on cooldown)
+ * Check if player can fire (predicted ammo, not reloading, and not on cooldown)
  */
 export function canFire(): boolean {
     const now = Date.now();
-    const cooldownElapsed = now - ammoState.lastShotTime >= AMMO_CONFIG.SHOOTING_COOLDOWN;
-    return ammoState.magazine > 0 && !ammoState.isReloading && cooldownElapsed;
+    const cooldownElapsed = now - lastShotTime >= getWeapon(equippedWeaponId).COOLDOWN_MS;
+    const ammo = getAmmoState();
+    return ammo.magazine > 0 && !ammo.isReloading && cooldownElapsed;
 }
 
 /**
- * Consume one bullet from magazine
- * Returns true if bullet was consumed, false if no ammo or on cooldown
+ * Predict a shot for the input with the given sequence
+ * Returns true if the input should ask the server to fire
  */
-export function fireBullet(): boolean {
+export function fireBullet(sequence: number): boolean {
     if (!canFire()) {
         return false;
     }
-    
-    ammoState.magazine--;
-    ammoState.lastShotTime = Date.now();
+
+    pendingShots.push(sequence);
+    lastShotTime = Date.now();
     return true;
 }
 
@@ -61,93 +68,133 @@ export function fireBullet(): boolean {
  * Check if player can reload (not already reloading, magazine not full, has reserve ammo)
  */
 export function canReload(): boolean {
-    return !ammoState.isReloading && 
-           ammoState.magazine < AMMO_CONFIG.MAX_MAGAZINE && 
-           ammoState.reserve > 0;
+    const ammo = getAmmoState();
+    return !ammo.isReloading &&
+           ammo.magazine < getWeapon(equippedWeaponId).MAGAZINE_SIZE &&
+           ammo.reserve > 0;
 }
 
 /**
- * Start reload process
- * Returns true if reload started, false if cannot reload
+ * Predict a reload for the input with the given sequence
+ * Returns true if the input should ask the server to reload
  */
-export function startReload(): boolean {
+export function startReload(sequence: number): boolean {
     if (!canReload()) {
         return false;
     }
-    
-    ammoState.isReloading = true;
-    ammoState.reloadStartTime = Date.now();
+
+    pendingReloadSequence = sequence;
     return true;
 }
 
 /**
- * Update reload progress and complete if time has elapsed
- * Should be called regularly in game loop
+ * Get the weapon id in a slot (1-based, in carried order) if it differs from the equipped weapon
+ * Returns null if the slot is empty or already equipped
  */
-export function updateReload(): void {
-    if (!ammoState.isReloading) {
-        return;
+export function getWeaponSwitch(slot: number): string | null {
+    const weaponId = carriedWeaponIds[slot - 1];
+    if (!weaponId || weaponId === equippedWeaponId) {
+        return null;
     }
-    
-    const elapsedTime = Date.now() - ammoState.reloadStartTime;
-    if (elapsedTime >= AMMO_CONFIG.RELOAD_TIME_MS) {
-        completeReload();
+    return weaponId;
+}
+
+/**
+ * Apply the weapon state confirmed by the server and drop acknowledged predictions
+ */
+export function applyServerAmmo(
+    weaponId: string,
+    weapons: Record<string, AmmoState>,
+    lastProcessedInput: number
+): void {
+    equippedWeaponId = weaponId;
+    carriedWeaponIds = Object.keys(weapons);
+    serverAmmo = weapons[weaponId] ? { ...weapons[weaponId] } : createFullAmmo(weaponId);
+    pendingShots = pendingShots.filter(sequence => sequence > lastProcessedInput);
+    if (pendingReloadSequence !== null && pendingReloadSequence <= lastProcessedInput) {
+        pendingReloadSequence = null;
     }
 }
 
 /**
- * Check if currently reloading
+ * Check if currently reloading (confirmed or predicted)
  */
 export function isReloading(): boolean {
-    return ammoState.isReloading;
+    return getAmmoState().isReloading;
 }
 
 /**
- * Get current ammo state for display
+ * Get the predicted ammo state of the equipped weapon for display
  */
 export function getAmmoState(): Readonly<AmmoState> {
-    return { ...ammoState };
+    const isReloadPending = pendingReloadSequence !== null;
+    return {
+        ...serverAmmo,
+        magazine: Math.max(serverAmmo.magazine - pendingShots.length, 0),
+        isReloading: serverAmmo.isReloading || isReloadPending,
+    };
+}
+
+/**
+ * Get the sprite path for projectiles fired by a weapon
+ */
+export function getProjectileSprite(weaponId: string): string {
+    return getWeapon(weaponId).PROJECTILE_SPRITE;
+}
+
+/**
+ * Get every projectile sprite path used by registered weapons (for preloading)
+ */
+export function getProjectileSprites(): string[] {
+    const sprites = Object.values(WEAPON_REGISTRY).map(weapon => weapon.PROJECTILE_SPRITE);
+    return [...new Set<string>(sprites)];
 }
 
 /**
  * Update ammo display UI element
  */
 export function updateAmmoDisplay(ammoText: Text): void {
-    ammoText.text = `${ammoState.magazine}/${ammoState.reserve}`;
+    const ammo = getAmmoState();
+    ammoText.text = `${getWeapon(equippedWeaponId).NAME} ${ammo.magazine}/${ammo.reserve}`;
 }
 
 /**
  * Update reload indicator UI element
  */
 export function updateReloadIndicator(reloadText: Text): void {
-    reloadText.visible = ammoState.isReloading;
+    reloadText.visible = isReloading();
 }
 
 /**
- * Reset ammo to starting state (for respawn/game start)
+ * Reset to the starting loadout (for respawn/game start) until the server confirms
  */
 export function resetAmmo(): void {
-    ammoState.magazine = AMMO_CONFIG.MAX_MAGAZINE;
-    ammoState.reserve = AMMO_CONFIG.STARTING_RESERVE;
-    ammoState.isReloading = false;
-    ammoState.reloadStartTime = 0;
-    ammoState.lastShotTime = 0;
+    equippedWeaponId = WEAPON_CONFIG.DEFAULT_WEAPON;
+    carriedWeaponIds = [...WEAPON_CONFIG.STARTING_WEAPONS];
+    serverAmmo = createFullAmmo(equippedWeaponId);
+    pendingShots = [];
+    pendingReloadSequence = null;
+    lastShotTime = 0;
 }
 
 // ===== PRIVATE FUNCTIONS =====
 
 /**
- * Complete the reload process
+ * Get a weapon definition, unknown ids fall back to the default weapon
  */
-function completeReload(): void {
-    const bulletsNeeded = AMMO_CONFIG.MAX_MAGAZINE - ammoState.magazine;
-    const bulletsToReload = Math.min(bulletsNeeded, ammoState.reserve);
-    
-    ammoState.magazine += bulletsToReload;
-    ammoState.reserve -= bulletsToReload;
-    ammoState.isReloading = false;
-    ammoState.reloadStartTime = 0;
+function getWeapon(weaponId: string): WeaponDefinition {
+    return WEAPON_REGISTRY[weaponId] || WEAPON_REGISTRY[WEAPON_CONFIG.DEFAULT_WEAPON];
 }
 
-// ===== EXPORT CONFIGURATION =====
-export const AMMO_CONSTANTS = AMMO_CONFIG; 
\ No newline at end of file
+/**
+ * Create the ammo state a weapon is picked up with
+ */
+function createFullAmmo(weaponId: string): AmmoState {
+    const weapon = getWeapon(weaponId);
+    return {
+        magazine: weapon.MAGAZINE_SIZE,
+        reserve: weapon.STARTING_RESERVE,
+        isReloading: false,
+        reloadStartTime: 0,
+    };
+}
@@ -18,7 +18,7 @@ export function hideSpritesOutsideScreen(app: any) {
     });
 }
 
-export function updateCamera(app: any, player: any, widthForHealthBar: number, camera: any, UIElements: any, dimRectangle: any, coordinatesText: any, FPSText: any, socketText: any, inventory: any, healthBar: any, healthBarValue: any, bulletCount: any, pingText: any, wallCount: any, usernameText: any, timerText: any, ammoDisplay: any, reloadIndicator: any) {
+export function updateCamera(app: any, player: any, widthForHealthBar: number, camera: any, UIElements: any, dimRectangle: any, coordinatesText: any, FPSText: any, socketText: any, inventory: any, healthBar: any, healthBarValue: any, bulletCount: any, pingText: any, wallCount: any, usernameText: any, timerText: any, ammoDisplay: any, reloadIndicator: any, armorBarValue: any, widthForArmorBar: number) {
     hideSpritesOutsideScreen(app);
     // Adjust the camera position to keep the player in the middle
     camera.x = player.x;
@@ -43,6 +43,13 @@ export function updateCamera(app: any, player: any, widthForHealthBar: number, c
     healthBarValue.height = 4 * Math.min(100, window.innerWidth / 1500);
     healthBarValue.x = camera.x - healthBar.width/2;
     healthBarValue.y = camera.y + 40 + (healthBar.height-healthBarValue.height)/6;
+
+    // armor sits just under the health bar and is hidden without armor
+    armorBarValue.visible = widthForArmorBar > 0;
+    armorBarValue.width = widthForArmorBar * Math.min(100, window.innerWidth / 1500);
+    armorBarValue.height = 3 * Math.min(100, window.innerWidth / 1500);
+    armorBarValue.x = camera.x - healthBar.width/2;
+    armorBarValue.y = healthBar.y + healthBar.height + 2;
     bulletCount.x = camera.x - (window.innerWidth/2) / camera.scale + 20;
     bulletCount.y = camera.y - (window.innerHeight/2) / camera.scale + 40;
 
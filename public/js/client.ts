@@ -11,6 +11,7 @@ import {
   fps_text_init,
   health_bar_init, 
   health_bar_value_init,
+  armor_bar_value_init,
   socket_text_init, 
   notification_init, 
   bullet_count_init, 
@@ -47,7 +48,8 @@ import {
 import { updateCamera } from './camera.js';
 
 // constants imports
-import { getRenderingConfig } from './constants-loader.js';
+import { getRenderingConfig, getGameConfig } from './constants-loader.js';
+import { loadMapData } from './map-loader.js';
 
 // external library declarations
 declare const PIXI: any;
@@ -57,7 +59,7 @@ declare const io: any;
 import type { Text, Graphics } from 'pixi.js';
 
 // local type imports
-import type { WallData, DeathInfo, PlayerStats } from './types.js';
+import type { WallData, DeathInfo, PlayerStats, PlayerInput, MapData, PickupData, GameModeSummary, FlagData, HillState, RoyaleState, MatchPhase, MatchSummary } from './types.js';
 
 // death screen imports
 import { showDeathScreen, hideDeathScreen, forceCloseDeathScreen } from './death-screen.js';
@@ -67,20 +69,60 @@ import { showMenuDimmer, hideMenuDimmer } from './styling.js';
 
 // ammo system imports
 import {
-  canFire,
   fireBullet,
-  canReload,
   startReload,
-  updateReload,
-  isReloading,
+  getWeaponSwitch,
+  getProjectileSprite,
+  getProjectileSprites,
+  applyServerAmmo,
   updateAmmoDisplay,
   updateReloadIndicator,
   resetAmmo
 } from './ammo-system.js';
 
+// pickup rendering imports
+import { pickup_layer_init, renderPickups, clearPickups } from './pickups.js';
+
+// capture the flag rendering imports
+import { flag_layer_init, renderFlags, positionCarriedFlags } from './flags.js';
+
+// king of the hill rendering imports
+import { hill_layer_init, renderHill } from './hill.js';
+
+// battle royale rendering imports
+import { royale_layer_init, renderRoyale } from './royale.js';
+
+// spawn protection rendering imports
+import { shield_layer_init, setShielded, positionShields, clearShields } from './shields.js';
+import {
+  startSpectating,
+  stopSpectating,
+  isSpectating,
+  isSpectatingByChoice,
+  getSpectatorCamera,
+  cycleSpectateTarget,
+  toggleFreeCamera,
+  setSpectatorCount
+} from './spectator.js';
+
+// gun game HUD imports
+import { renderLadder } from './gun-game.js';
+
+// match phase banner imports
+import { renderMatch, hideBanner } from './match.js';
+
+// team color imports
+import { getTeamTint } from './teams.js';
+
 // real-time leaderboard imports
 import { RealtimeLeaderboardManager } from './realtime-leaderboard.js';
 
+// movement prediction imports
+import { predictMovement, reconcileWithServer, resetPrediction } from './prediction.js';
+
+// Snapshot interpolation for enemies and bullets
+import { SnapshotBuffer } from './interpolation.js';
+
 // ===== TYPES AND INTERFACES =====
 
 interface EnemyUI {
@@ -93,6 +135,7 @@ interface EnemyUIElements {
   container: any;
   healthBar: any;
   healthBarValue: any;
+  armorBarValue: any;
   usernameText: any;
 }
 
@@ -109,6 +152,10 @@ let playing = false;
 let username = " ";
 let lastPingSentTime: number = 0;
 let widthForHealthBar: number = 0;
+let widthForArmorBar: number = 0;
+let inputSequence: number = 0;
+let currentModeId: string | null = null; // announced when the room switches modes
+let matchPhase: MatchPhase = "warmup"; // the server holds everyone in place outside warmup and live rounds
 
 // Constants loaded from backend
 let PIXI_CONFIG: any;
@@ -170,6 +217,19 @@ ENEMY_BAR_CONFIG = renderingConfig?.ENEMY_BAR || {
   Y_OFFSET: 8,
 };
 
+// enemies and bullets are rendered slightly in the past so they can be interpolated between snapshots
+const INTERPOLATION_CONFIG = renderingConfig?.INTERPOLATION || {
+  RENDER_DELAY_MS: 100,
+  MAX_EXTRAPOLATION_MS: 200,
+  MAX_SNAPSHOTS: 60,
+};
+const enemySnapshots = new SnapshotBuffer<any>(INTERPOLATION_CONFIG);
+const bulletSnapshots = new SnapshotBuffer<any>(INTERPOLATION_CONFIG);
+
+// inputs are sent once per server simulation tick so each one maps to one predicted step
+const gameConfig = await getGameConfig();
+const INPUT_SEND_INTERVAL = gameConfig?.SIMULATION_TICK_MS || 1000 / 60;
+
 // ===== SOCKET SETUP =====
 
 /**
@@ -245,17 +305,24 @@ app.stage.addChild(enemyUIContainer);
 app.stage.sortableChildren = true;
 
 // initialize game world and UI elements
-let wallsData: Record<string, WallData> = await background_init(app, socket);
+const mapData = await loadMapData(getRoomFromHash());
+let wallsData: Record<string, WallData> = await background_init(app, mapData);
+const pickupLayer = pickup_layer_init(app);
+const flagLayer = flag_layer_init(app);
+const hillLayer = hill_layer_init(app);
+const royaleLayer = royale_layer_init(app);
+const shieldLayer = shield_layer_init(app);
 const player = await player_init();
 const dimRectangle = menu_dimmer_init(player); // legacy - returns null now
 const FPSText = fps_text_init(app, player);
 const healthBar = health_bar_init();
 const healthBarValue = health_bar_value_init();
+const armorBarValue = armor_bar_value_init();
 const socketText = socket_text_init(socket);
 const { notificationContainer, notification } = notification_init();
 const bulletCount = bullet_count_init();
 const pingText = ping_init();
-const wallCount = wall_count_init();
+const wallCount = wall_count_init(wallsData);
 const centering_test = centering_test_init();
 const usernameText = username_init();
 const timerText = timer_init();
@@ -273,6 +340,14 @@ window.addEventListener("keyup", handleKeyUp);
 window.addEventListener("mousemove", handleMouseMove);
 window.addEventListener('mousedown', handleMouseDown);
 window.addEventListener('mouseup', handleMouseUp);
+window.addEventListener('mousedown', () => {
+  if (isSpectating()) cycleSpectateTarget(enemySprites);
+});
+window.addEventListener('keydown', (event) => {
+  if (!isSpectating()) return;
+  if (event.key.toLowerCase() === 'f') toggleFreeCamera(camera);
+  if (event.key === ' ' && isSpectatingByChoice()) document.getElementById("spawn")?.click();
+});
 
 // ===== ENEMY RENDERING =====
 
@@ -300,10 +375,12 @@ function renderEnemies(enemiesData: any): void {
         const container = new PIXI.Container();
         const healthBar = health_bar_init();
         const healthBarValue = health_bar_value_init();
+        const armorBarValue = armor_bar_value_init();
         const usernameText = username_init();
         
         container.addChild(healthBar);
         container.addChild(healthBarValue);
+        container.addChild(armorBarValue);
         container.addChild(usernameText);
         
         enemyUIContainer.addChild(container);
@@ -311,6 +388,7 @@ function renderEnemies(enemiesData: any): void {
           container,
           healthBar,
           healthBarValue,
+          armorBarValue,
           usernameText
         };
       }
@@ -321,10 +399,12 @@ function renderEnemies(enemiesData: any): void {
     enemySprite.x = enemyData.x + GAME_CONSTANTS.ENEMY_POSITION_OFFSET_X;
     enemySprite.y = enemyData.y + GAME_CONSTANTS.ENEMY_POSITION_OFFSET_Y;
     enemySprite.rotation = enemyData.rotation;
+    enemySprite.tint = getTeamTint(enemyData.team);
+    setShielded(enemyId, !!enemyData.spawnProtected);
 
     // update enemy UI elements
     if (enemyUIElements[enemyId]) {
-      const { container, healthBar, healthBarValue, usernameText } = enemyUIElements[enemyId];
+      const { container, healthBar, healthBarValue, armorBarValue, usernameText } = enemyUIElements[enemyId];
       
       // position container relative to enemy
       container.x = enemyData.x;
@@ -350,6 +430,14 @@ function renderEnemies(enemiesData: any): void {
       healthBar.y = GAME_CONSTANTS.HEALTH_BAR_Y_BASE + (healthBar.height - healthBarValue.height) / GAME_CONSTANTS.HEALTH_BAR_Y_DIVISOR;
       healthBarValue.x = GAME_CONSTANTS.HEALTH_BAR_X_OFFSET;
       healthBarValue.y = GAME_CONSTANTS.HEALTH_BAR_Y_BASE + (healthBar.height - healthBarValue.height) / GAME_CONSTANTS.HEALTH_BAR_Y_DIVISOR;
+
+      // armor shows as a second, thinner bar under the health bar
+      const armor = enemyData.armor ?? 0;
+      armorBarValue.visible = armor > 0;
+      armorBarValue.width = (armor * GAME_CONSTANTS.HEALTH_BAR_VALUE_MULTIPLIER + GAME_CONSTANTS.HEALTH_BAR_VALUE_OFFSET) * scaleFactor;
+      armorBarValue.height = GAME_CONSTANTS.HEALTH_BAR_VALUE_HEIGHT * 0.75 * scaleFactor;
+      armorBarValue.x = GAME_CONSTANTS.HEALTH_BAR_X_OFFSET;
+      armorBarValue.y = healthBar.y + healthBar.height + 2 * scaleFactor;
     }
 
     // render development bounding boxes if enabled
@@ -362,6 +450,8 @@ function renderEnemies(enemiesData: any): void {
   for (const enemyId in enemySprites) {
     const enemyData = enemiesData[enemyId];
     if (!enemyData || enemyData.health <= 0) {
+      setShielded(enemyId, false);
+
       // remove sprite from stage
       const sprite = enemySprites[enemyId];
       app.stage.removeChild(sprite);
@@ -377,15 +467,35 @@ function renderEnemies(enemiesData: any): void {
   }
 }
 
+/**
+ * gets where a player is drawn, null if they are not on screen
+ */
+function getPlayerPosition(playerId: string): { x: number; y: number } | null {
+  if (playerId === socket.id) {
+    return playing ? { x: player.x, y: player.y } : null;
+  }
+  const enemySprite = enemySprites[playerId];
+  return enemySprite ? { x: enemySprite.x, y: enemySprite.y } : null;
+}
+
 // ===== SOCKET EVENT HANDLERS =====
 
 /**
- * handles enemy updates from server
+ * buffers enemy snapshots from server for interpolated rendering
  */
-socket.on("clientUpdateAllEnemies", (enemiesData: Record<string, any>) => {
+socket.on("clientUpdateAllEnemies", (enemiesData: Record<string, any>, serverTime: number) => {
   // exclude self from enemy list
   delete enemiesData[socket.id];
 
+  enemySnapshots.push(serverTime, enemiesData);
+});
+
+/**
+ * renders enemies at the interpolated render time
+ */
+function renderInterpolatedEnemies(): void {
+  const enemiesData = enemySnapshots.sample();
+
   // cleanup legacy enemy UI elements
   for (const id in enemyUI) {
     const died = !enemiesData[id] || enemiesData[id].health <= 0;
@@ -410,7 +520,7 @@ socket.on("clientUpdateAllEnemies", (enemiesData: Record<string, any>) => {
 
   // render all current enemies
   renderEnemies(enemiesData);
-});
+}
 
 /**
  * handles player state updates from server
@@ -421,11 +531,17 @@ socket.on("clientUpdateSelf", (playerData: any) => {
     if (playerData.health > 0) {
       // preserve exact math: health * 0.6 - 2
       widthForHealthBar = playerData.health * 0.6 - 2;
+      widthForArmorBar = playerData.armor > 0 ? playerData.armor * 0.6 - 2 : 0;
+      player.tint = getTeamTint(playerData.team);
+      setShielded(socket.id, !!playerData.spawnProtected);
     } else {
       // handle player death
       console.log("💀 player died");
       playing = false;
       widthForHealthBar = 0;
+      widthForArmorBar = 0;
+      setShielded(socket.id, false);
+      resetPrediction();
       
       // remove game elements and show menu
       app.stage.removeChild(player);
@@ -438,10 +554,17 @@ socket.on("clientUpdateSelf", (playerData: any) => {
       // this just handles the game state cleanup
     }
     
-    // update player position and rotation (preserve exact math: + 32)
-    player.x = playerData.x + 32;
-    player.y = playerData.y + 32;
-    player.rotation = playerData.rotation;
+    // show the server-confirmed weapon and ammo, keeping predicted shots the server has not applied yet
+    if (playerData.weapons) {
+      applyServerAmmo(playerData.weaponId, playerData.weapons, playerData.lastProcessedInput ?? 0);
+    }
+    
+    // update player position (preserve exact math: + 32)
+    // while alive, replay unacknowledged inputs on top of the authoritative position
+    // rotation stays client-driven so aiming never waits on the server
+    const position = playerData.health > 0 ? reconcileWithServer(playerData, wallsData) : playerData;
+    player.x = position.x + 32;
+    player.y = position.y + 32;
 
     // render development bounding boxes if enabled
     if (dev) {
@@ -453,15 +576,31 @@ socket.on("clientUpdateSelf", (playerData: any) => {
 // ===== GAME LOOP =====
 
 /**
- * sends player updates to server at 100fps
+ * sends player input to server once per simulation tick and predicts the result locally
  */
 setInterval(() => {
   if (playing) {
-    // handle reload input
+    const sequence = ++inputSequence;
+
+    // inputs are still sent while the match is paused so the server acknowledges them,
+    // but nothing is predicted because the server applies none of them
+    const canAct = isPlayablePhase(matchPhase);
+
+    // handle reload input, the server decides whether the reload actually starts
+    let reloadRequested = false;
     if (keyboard.r) {
-      startReload();
+      reloadRequested = canAct && startReload(sequence);
       keyboard.r = false; // Prevent continuous reloading while holding R
     }
+
+    // handle weapon slot keys, the server switches once it applies the input
+    let weaponSwitch: string | undefined;
+    for (const slot of [1, 2, 3]) {
+      if (keyboard[slot]) {
+        if (canAct) weaponSwitch = getWeaponSwitch(slot) ?? undefined;
+        keyboard[slot] = false;
+      }
+    }
     
     // handle leaderboard visibility
     if (keyboard.t) {
@@ -476,33 +615,58 @@ setInterval(() => {
       }
     }
     
-    // update reload progress
-    updateReload();
+    // attempt to fire if mouse button is pressed
+    // predicted ammo only filters obviously empty shots, the server checks the real magazine
+    let actuallyFired = false;
+    if (mouse.mb1 && canAct) {
+      actuallyFired = fireBullet(sequence);
+    }
     
     // update ammo UI
     updateAmmoDisplay(ammoDisplay);
     updateReloadIndicator(reloadIndicator);
     
-    // attempt to fire if mouse button is pressed
-    // ammo system handles cooldown and availability internally
-    let actuallyFired = false;
-    if (mouse.mb1) {
-      actuallyFired = fireBullet();
-    }
-    
-    socket.emit("serverUpdateSelf", {
+    const input: PlayerInput = {
       id: socket.id,
       username: username,
+      sequence,
+      viewTime: enemySnapshots.getRenderTime(),
       // calculate rotation from mouse position (preserve exact math)
       rotation: Math.atan2(
         mouse.y - app.renderer.height / 2,
         mouse.x - app.renderer.width / 2
       ) + Math.PI / 2,
-      mb1: actuallyFired, // Only send true if we actually fired (consumed ammo)
-      keyboard: keyboard
-    });
+      mb1: actuallyFired, // Only send true if we predicted a shot (has ammo, off cooldown)
+      reload: reloadRequested,
+      weaponSwitch,
+      keyboard: {
+        w: keyboard.w,
+        a: keyboard.a,
+        s: keyboard.s,
+        d: keyboard.d,
+        shift: keyboard.shift
+      }
+    };
+    socket.emit("serverUpdateSelf", input);
+
+    // move the local sprite immediately instead of waiting for the round trip
+    if (canAct) {
+      player.rotation = input.rotation;
+      const predicted = predictMovement(input, wallsData);
+      if (predicted) {
+        player.x = predicted.x + 32;
+        player.y = predicted.y + 32;
+      }
+    }
   }
-}, 10);
+}, INPUT_SEND_INTERVAL);
+
+/**
+ * checks if the server applies movement, shooting and reloads in a match phase (matches server-side isPlaying)
+ */
+function isPlayablePhase(phase: MatchPhase): boolean {
+  return phase === "warmup" || phase === "live";
+}
 
 /**
  * update leaderboard data periodically when visible
@@ -518,56 +682,62 @@ setInterval(() => {
 // bullet sprite collection
 let bulletSprites: {[key: string]: any} = {};
 
-// load bullet texture
-const bulletTexture = await Assets.load("images/bullet.png");
+// load projectile textures for every weapon, keyed by sprite path
+const bulletTextures: Record<string, any> = {};
+for (const sprite of getProjectileSprites()) {
+  bulletTextures[sprite] = await Assets.load(sprite);
+}
 
 /**
- * handles new bullet creation from server
+ * handles bullet position updates from server
  */
-socket.on("clientUpdateNewBullet", (bulletData: any) => {
-  const bulletSprite = Sprite.from(bulletTexture);
-  bulletSprite.scale.set(1, 1);
-  bulletSprite.anchor.set(0.5, 0.5);
-  bulletSprite.x = bulletData.x;
-  bulletSprite.y = bulletData.y;
-  bulletSprite.width = bulletData.width;
-  bulletSprite.height = bulletData.height;
-  app.stage.addChild(bulletSprite);
-  bulletSprites[bulletData.id] = bulletSprite;
+socket.on("clientUpdateAllBullets", (bulletsData: any, serverTime: number) => {
+  bulletCount.text = "Bullets: " + Object.keys(bulletsData).length;
+  bulletSnapshots.push(serverTime, bulletsData);
+
+  // render development bounding boxes for bullets if enabled
+  if (dev) {
+    Object.keys(bulletsData).forEach((bulletId) => {
+      handleDevBulletBoundingBox(app, boundingBoxes, bulletsData, bulletId);
+    });
+  }
 });
 
 /**
- * handles bullet position updates from server
+ * renders bullets at the interpolated render time
+ * sprites are created when a bullet first appears in the interpolated state
  */
-socket.on("clientUpdateAllBullets", (bulletsData: any) => {
-  const connectedBulletIds = Object.keys(bulletsData);
-  bulletCount.text = "Bullets: " + Object.keys(bulletsData).length;
-  
-  // update existing bullets or remove disconnected ones
+function renderInterpolatedBullets(): void {
+  const bulletsData = bulletSnapshots.sample();
+
+  // remove bullets that no longer exist at the render time
   for (const bulletId in bulletSprites) {
-    if (!connectedBulletIds.includes(bulletId)) {
-      // remove bullet that no longer exists on server
-      const bulletSprite = bulletSprites[bulletId];
-      app.stage.removeChild(bulletSprite);
+    if (!bulletsData[bulletId]) {
+      app.stage.removeChild(bulletSprites[bulletId]);
       delete bulletSprites[bulletId];
-      continue;
     }
-    
-    // update bullet position and rotation
+  }
+
+  // create new bullets and update positions and rotations
+  for (const bulletId in bulletsData) {
     const bulletData = bulletsData[bulletId];
-    const bulletSprite = bulletSprites[bulletId];
+    let bulletSprite = bulletSprites[bulletId];
+
+    if (!bulletSprite) {
+      bulletSprite = Sprite.from(bulletTextures[getProjectileSprite(bulletData.weaponId)]);
+      bulletSprite.scale.set(1, 1);
+      bulletSprite.anchor.set(0.5, 0.5);
+      bulletSprite.width = bulletData.width;
+      bulletSprite.height = bulletData.height;
+      app.stage.addChild(bulletSprite);
+      bulletSprites[bulletId] = bulletSprite;
+    }
+
     bulletSprite.x = bulletData.x;
     bulletSprite.y = bulletData.y;
     bulletSprite.rotation = bulletData.rotation;
   }
-
-  // render development bounding boxes for bullets if enabled
-  if (dev) {
-    Object.keys(bulletsData).forEach((bulletId) => {
-      handleDevBulletBoundingBox(app, boundingBoxes, bulletsData, bulletId);
-    });
-  }
-});
+}
 
 // ===== DEVELOPMENT TOOLS =====
 
@@ -585,6 +755,111 @@ setInterval(() => {
   });
 }, 10);
 
+/**
+ * handles map rotation at the end of a round
+ * rebuilds the tile layer and walls without reloading the page
+ */
+socket.on("mapChanged", async (newMapData: MapData) => {
+  // clear before awaiting so the pickups sent right after the map are not wiped
+  clearPickups(pickupLayer);
+  clearShields(shieldLayer);
+  wallsData = await background_init(app, newMapData);
+  wallCount.text = "Walls: " + Object.keys(wallsData).length;
+
+  // old positions and snapshots belong to the previous map
+  resetPrediction();
+  enemySnapshots.clear();
+  bulletSnapshots.clear();
+
+  notification(`Next map: ${newMapData.name}`);
+});
+
+/**
+ * handles pickup changes from server (collected, respawned or dropped)
+ */
+socket.on("pickupsUpdate", (pickups: Record<string, PickupData>) => {
+  renderPickups(pickupLayer, pickups);
+});
+
+/**
+ * handles recipe book changes from server (stolen, dropped, returned or captured)
+ */
+socket.on("flagsUpdate", (flags: Record<string, FlagData>) => {
+  renderFlags(flagLayer, flags);
+});
+
+/**
+ * handles hill zone and capture progress updates from server
+ */
+socket.on("hillUpdate", (hill: HillState | null) => {
+  renderHill(hillLayer, hill);
+});
+
+/**
+ * handles safe zone and survivor updates from server
+ */
+socket.on("royaleUpdate", (royale: RoyaleState | null) => {
+  renderRoyale(royaleLayer, royale);
+});
+
+/**
+ * handles the server refusing a spawn (out of this battle royale round)
+ * the player watches the chefs still in the round instead
+ */
+socket.on("spectating", (data: { reason: string }) => {
+  enterSpectatorView(data.reason, false);
+});
+
+/**
+ * handles the number of spectators in the room changing
+ */
+socket.on("spectatorCount", (count: number) => {
+  setSpectatorCount(count);
+});
+
+/**
+ * stops playing and hands the camera to the spectator module
+ */
+function enterSpectatorView(reason: string, chosen: boolean): void {
+  playing = false;
+  resetPrediction();
+  hideDeathScreen();
+
+  if (app.stage.children.includes(player)) {
+    app.stage.removeChild(player);
+  }
+  if (app.stage.children.includes(UIElements)) {
+    app.stage.removeChild(UIElements);
+  }
+
+  startSpectating(reason, chosen);
+}
+
+/**
+ * handles mode and team score updates from server
+ */
+socket.on("gameModeUpdate", (mode: GameModeSummary) => {
+  if (mode.modeId !== currentModeId) {
+    currentModeId = mode.modeId;
+    notification(`Mode: ${mode.name}`);
+  }
+  renderLadder(mode, socket.id);
+});
+
+/**
+ * handles match phase changes from server (warmup, countdown, live, round end, intermission)
+ */
+socket.on("matchUpdate", (match: MatchSummary) => {
+  matchPhase = match.phase;
+  renderMatch(match);
+
+  // players knocked out of the last round rejoin for the next one
+  if (match.phase === "countdown" && isSpectating() && !isSpectatingByChoice()) {
+    stopSpectating();
+    document.getElementById("spawn")?.click();
+  }
+});
+
 /**
  * handles kill notifications from server
  */
@@ -592,6 +867,31 @@ socket.on("notification", (text: string) => {
   notification(text);
 });
 
+/**
+ * shows the local player an achievement they just unlocked
+ */
+socket.on("achievementUnlocked", (achievement: { name: string; icon: string }) => {
+  notification(`${achievement.icon} Achievement unlocked: ${achievement.name}`);
+});
+
+/**
+ * shows the local player their own streaks and multikills (notable ones already arrive as room notifications)
+ */
+socket.on("killstreak", (data: { playerId: string; streakName: string; kills: number; announced: boolean }) => {
+  if (data.playerId === socket.id && !data.announced) {
+    notification(`🔥 ${data.streakName}!`);
+  }
+});
+
+/**
+ * tells the local player when they helped with someone else's kill
+ */
+socket.on("playerKilled", (data: { victimName: string; assisterIds: string[] }) => {
+  if (data.assisterIds.includes(socket.id)) {
+    notification(`🤝 Assist on ${data.victimName}`);
+  }
+});
+
 /**
  * handles death screen display from server
  */
@@ -619,7 +919,13 @@ socket.on("killFeed", (data: { killer: string; victim: string; weapon: string; k
 /**
  * handles timer updates from server
  */
-socket.on("timerUpdate", (data: { remainingTime: number }) => {
+socket.on("timerUpdate", (data: { remainingTime: number | null }) => {
+  // modes that only end by score have no countdown
+  if (data.remainingTime === null) {
+    timerText.text = "∞";
+    return;
+  }
+
   const minutes = Math.floor(data.remainingTime / 60);
   const seconds = Math.floor(data.remainingTime % 60);
   timerText.text = `${minutes}:${seconds.toString().padStart(2, '0')}`;
@@ -628,12 +934,15 @@ socket.on("timerUpdate", (data: { remainingTime: number }) => {
 /**
  * handles game ended event from server
  */
-socket.on("gameEnded", (data: { finalStats: Array<{ username: string; stats: PlayerStats }> }) => {
+socket.on("gameEnded", (data: { finalStats: Array<{ username: string; stats: PlayerStats }>; mode?: GameModeSummary }) => {
   console.log("🏁 game ended", data);
   playing = false;
+  resetPrediction();
   
   // force close death screen if it's open
   forceCloseDeathScreen();
+  stopSpectating();
+  hideBanner();
   
   // remove game elements
   if (app.stage.children.includes(player)) {
@@ -660,10 +969,13 @@ socket.on("gameEnded", (data: { finalStats: Array<{ username: string; stats: Pla
       shotsFired: 0,
       shotsHit: 0,
       timeAlive: 0,
-      gamesPlayed: 0
+      gamesPlayed: 0,
+      longestStreak: 0,
+      assists: 0,
+      shutdowns: 0
     };
     
-    showGameEndedScreen(playerStats, data.finalStats as any);
+    showGameEndedScreen(playerStats, data.finalStats as any, data.mode);
   });
 });
 
@@ -677,11 +989,14 @@ socket.on("realtimeLeaderboardData", (data: {
     kills: number;
     deaths: number;
     isDead: boolean;
+    team: string | null;
   }>;
   serverInfo: {
     region: string;
     latency: number;
+    spectators?: number;
   };
+  mode?: GameModeSummary;
 }) => {
   // map server data to client interface by adding isCurrentPlayer field
   const mappedPlayers = data.players.map(player => ({
@@ -689,7 +1004,7 @@ socket.on("realtimeLeaderboardData", (data: {
     isCurrentPlayer: false // this will be set correctly in updateData method
   }));
   
-  realtimeLeaderboard.updateData(mappedPlayers, socket.id, data.serverInfo);
+  realtimeLeaderboard.updateData(mappedPlayers, socket.id, data.serverInfo, data.mode);
 });
 
 // ===== CAMERA SYSTEM =====
@@ -703,9 +1018,17 @@ const camera = {
 
 // camera update loop
 app.ticker.add(() => {
+  renderInterpolatedEnemies();
+  renderInterpolatedBullets();
+  positionCarriedFlags(getPlayerPosition);
+  positionShields(shieldLayer, getPlayerPosition);
+
+  // spectators follow another chef or fly free, everyone else follows themselves
+  const cameraTarget = isSpectating() ? getSpectatorCamera(enemySprites, keyboard, app.ticker.deltaMS) ?? player : player;
+
   updateCamera(
     app, 
-    player, 
+    cameraTarget, 
     widthForHealthBar,
     camera, 
     UIElements,
@@ -722,7 +1045,9 @@ app.ticker.add(() => {
     usernameText,
     timerText,
     ammoDisplay,
-    reloadIndicator
+    reloadIndicator,
+    armorBarValue,
+    widthForArmorBar
   );
 });
 
@@ -735,10 +1060,17 @@ const spawnButton = document.getElementById("spawn");
 if (spawnButton) {
   spawnButton.addEventListener("click", function () {
     playing = true;
+    if (isSpectatingByChoice()) {
+      socket.emit("leaveSpectators");
+    }
+    stopSpectating();
     
     // reset ammo to starting state
     resetAmmo();
     
+    // wait for the spawn position before predicting movement
+    resetPrediction();
+    
     // hide death screen if it's showing
     hideDeathScreen();
     
@@ -772,6 +1104,34 @@ if (spawnButton) {
   console.error("❌ spawn button not found");
 }
 
+/**
+ * handles spectate button click to watch the room without playing
+ */
+const spectateButton = document.getElementById("spectate");
+if (spectateButton) {
+  spectateButton.addEventListener("click", function () {
+    socket.emit("joinSpectators");
+    enterSpectatorView("Watching this kitchen", true);
+
+    // hide game-ended screen if it's showing
+    const gameEndedScreen = document.getElementById("game-ended-screen");
+    if (gameEndedScreen) {
+      document.body.removeChild(gameEndedScreen);
+    }
+
+    // hide main UI and auth section
+    hideMenuDimmer();
+    const mainUI = document.getElementById("main-ui");
+    if (mainUI) {
+      mainUI.style.display = "none";
+    }
+    const authSection = document.getElementById("auth-section");
+    if (authSection) {
+      authSection.style.display = "none";
+    }
+  });
+}
+
 /**
  * handles development mode toggle with backtick key
  */
@@ -828,6 +1188,7 @@ document.body.appendChild(app.view);
 UIElements.addChild(socketText);
 UIElements.addChild(healthBar);
 UIElements.addChild(healthBarValue);
+UIElements.addChild(armorBarValue);
 UIElements.addChild(FPSText);
 UIElements.addChild(bulletCount);
 UIElements.addChild(pingText);
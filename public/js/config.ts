@@ -14,8 +14,8 @@ interface GameConfig {
   BULLET_OFFSET: number;
   BULLET_SPREAD: number;
   SHOOTING_COOLDOWN: number;
-  ENEMY_UPDATE_RATE: number;
-  BULLET_UPDATE_RATE: number;
+  TICK_RATE: number;
+  SIMULATION_TICK_MS: number;
   STATS_UPDATE_RATE: number;
   PHYSICS_DELTA_TIME: number;
   USERNAME_MAX_LENGTH: number;
@@ -59,8 +59,8 @@ export async function loadConfig(): Promise<GameConfig> {
       BULLET_OFFSET: 30,
       BULLET_SPREAD: 0.05,
       SHOOTING_COOLDOWN: 100,
-      ENEMY_UPDATE_RATE: 20,
-      BULLET_UPDATE_RATE: 20,
+      TICK_RATE: 60,
+      SIMULATION_TICK_MS: 1000 / 60,
       STATS_UPDATE_RATE: 1000,
       PHYSICS_DELTA_TIME: 1 / 60,
       USERNAME_MAX_LENGTH: 12,
@@ -7,11 +7,15 @@ interface ConstantsResponse {
   success: boolean;
   data?: {
     GAME_CONFIG: any;
-    AMMO_CONFIG: any;
+    WEAPON_CONFIG: any;
+    WEAPON_REGISTRY: any;
+    PICKUP_CONFIG: any;
+    FLAG_CONFIG: any;
+    MODE_CONFIG: any;
+    GUN_GAME_CONFIG: any;
     VISUAL_CONFIG: any;
     NOTIFICATION_COLORS: any;
     RENDERING_CONFIG: any;
-    SPAWN_POINTS: any;
     DEFAULT_STATS: any;
     CALCULATED_VALUES: any;
   };
@@ -44,15 +48,50 @@ async function fetchConstants(): Promise<ConstantsResponse['data']> {
     // Fallback to default values
     return {
       GAME_CONFIG: {
+        PLAYER_SIZE: 70,
+        PLAYER_BASE_SPEED: 300,
+        PLAYER_SPRINT_BONUS: 150,
+        TICK_RATE: 60,
+        SIMULATION_TICK_MS: 1000 / 60,
+        PHYSICS_DELTA_TIME: 1 / 60,
         GAME_DURATION_MINUTES: 5,
         RESPAWN_COUNTDOWN_SECONDS: 30,
         GAME_ENDED_AUTO_RETURN_SECONDS: 30,
       },
-      AMMO_CONFIG: {
-        MAX_MAGAZINE: 30,
-        STARTING_RESERVE: 240,
-        RELOAD_TIME_MS: 3000,
-        SHOOTING_COOLDOWN: 100,
+      WEAPON_CONFIG: {
+        DEFAULT_WEAPON: 'rifle',
+        STARTING_WEAPONS: ['rifle'],
+      },
+      WEAPON_REGISTRY: {
+        rifle: {
+          NAME: 'Rifle',
+          COOLDOWN_MS: 100,
+          MAGAZINE_SIZE: 30,
+          STARTING_RESERVE: 240,
+          RELOAD_TIME_MS: 3000,
+          PROJECTILE_SPRITE: 'images/bullet.png',
+        },
+      },
+      MODE_CONFIG: {
+        DEFAULT_MODE: 'ffa',
+        TEAMS: ['red', 'blue'],
+        TEAM_NAMES: { red: 'Red Kitchen', blue: 'Blue Kitchen' },
+        TEAM_COLORS: { red: 0xff6b6b, blue: 0x4dabf7 },
+      },
+      GUN_GAME_CONFIG: {
+        LADDER: ['rifle', 'shotgun', 'sniper'],
+      },
+      FLAG_CONFIG: {
+        SIZE: 56,
+        BASE_SIZE: 160,
+        ICON: '📖',
+      },
+      PICKUP_CONFIG: {
+        AMMO_ICON: '🥫',
+        WEAPON_ICON: '🔪',
+        HEALTH_ITEMS: {
+          burger: { NAME: 'Burger', HEAL: 40, ICON: '🍔' },
+        },
       },
       VISUAL_CONFIG: {
         BACKGROUND_DIM: 'rgba(0, 0, 0, 0.4)',
@@ -97,14 +136,12 @@ async function fetchConstants(): Promise<ConstantsResponse['data']> {
           HEIGHT: 5,
           Y_OFFSET: 8,
         },
+        INTERPOLATION: {
+          RENDER_DELAY_MS: 100,
+          MAX_EXTRAPOLATION_MS: 200,
+          MAX_SNAPSHOTS: 60,
+        },
       },
-      SPAWN_POINTS: [
-        [250, 2100],
-        [2650, 2100], 
-        [1450, 2100],
-        [1450, 250],
-        [1450, 3950]
-      ],
       DEFAULT_STATS: {
         kills: 0,
         deaths: 0,
@@ -113,6 +150,9 @@ async function fetchConstants(): Promise<ConstantsResponse['data']> {
         shotsHit: 0,
         timeAlive: 0,
         gamesPlayed: 0,
+        longestStreak: 0,
+        assists: 0,
+        shutdowns: 0,
       },
       CALCULATED_VALUES: {
         GAME_DURATION_SECONDS: 300,
@@ -136,9 +176,34 @@ export async function getGameConfig() {
   return constants?.GAME_CONFIG;
 }
 
-export async function getAmmoConfig() {
+export async function getWeaponConfig() {
+  const constants = await getConstants();
+  return constants?.WEAPON_CONFIG;
+}
+
+export async function getWeaponRegistry() {
+  const constants = await getConstants();
+  return constants?.WEAPON_REGISTRY;
+}
+
+export async function getModeConfig() {
+  const constants = await getConstants();
+  return constants?.MODE_CONFIG;
+}
+
+export async function getGunGameConfig() {
+  const constants = await getConstants();
+  return constants?.GUN_GAME_CONFIG;
+}
+
+export async function getFlagConfig() {
   const constants = await getConstants();
-  return constants?.AMMO_CONFIG;
+  return constants?.FLAG_CONFIG;
+}
+
+export async function getPickupConfig() {
+  const constants = await getConstants();
+  return constants?.PICKUP_CONFIG;
 }
 
 export async function getVisualConfig() {
@@ -156,11 +221,6 @@ export async function getRenderingConfig() {
   return constants?.RENDERING_CONFIG;
 }
 
-export async function getSpawnPoints() {
-  const constants = await getConstants();
-  return constants?.SPAWN_POINTS;
-}
-
 export async function getDefaultStats() {
   const constants = await getConstants();
   return constants?.DEFAULT_STATS;
@@ -4,7 +4,7 @@
  */
 
 // Type imports
-import type { DeathInfo, PlayerStats } from './types.js';
+import type { DamageTaken, DeathInfo, PlayerStats } from './types.js';
 
 // Constants imports
 import { RESPAWN_COUNTDOWN_SECONDS } from './constants-loader.js';
@@ -117,6 +117,8 @@ function createDeathScreenContent(deathInfo: DeathInfo): HTMLElement {
       </p>
     </div>
 
+    ${createDamageBreakdown(deathInfo.damageTaken)}
+
     <!-- Session Stats -->
     <div class="bg-black bg-opacity-30 rounded-2xl p-6 mb-6 border border-orange-300 border-opacity-50">
       <h2 class="text-xl font-bold text-orange-200 mb-4 flex items-center justify-center">
@@ -169,6 +171,13 @@ function createDeathScreenContent(deathInfo: DeathInfo): HTMLElement {
         Auto-respawn in <span class="font-bold text-white">30</span> seconds
       </div>
       
+      <button 
+        id="spectate-button"
+        class="w-full bg-gradient-to-r from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-300 transform hover:scale-105 shadow-lg border-2 border-gray-400 border-opacity-50"
+      >
+        👀 Spectate
+      </button>
+      
       <button 
         id="main-menu-button"
         class="w-full bg-gradient-to-r from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-300 transform hover:scale-105 shadow-lg border-2 border-gray-400 border-opacity-50"
@@ -184,17 +193,50 @@ function createDeathScreenContent(deathInfo: DeathInfo): HTMLElement {
   return content;
 }
 
+/**
+ * creates the list of who hit the player and for how much, empty when nobody did
+ */
+function createDamageBreakdown(damageTaken: DamageTaken[]): string {
+  if (damageTaken.length === 0) return "";
+
+  const totalDamage = damageTaken.reduce((total, entry) => total + entry.damage, 0);
+  const rows = damageTaken.map(entry => `
+    <div class="mb-2">
+      <div class="flex justify-between text-sm text-white">
+        <span class="font-bold">${entry.attackerName}</span>
+        <span>${Math.round(entry.damage)} dmg</span>
+      </div>
+      <div class="h-2 bg-black bg-opacity-40 rounded-full overflow-hidden">
+        <div class="h-full bg-red-400" style="width: ${Math.round((entry.damage / totalDamage) * 100)}%"></div>
+      </div>
+    </div>
+  `).join("");
+
+  return `
+    <!-- Damage Breakdown -->
+    <div class="bg-black bg-opacity-30 rounded-2xl p-4 mb-6 border border-red-300 border-opacity-50 text-left">
+      <h2 class="text-lg font-bold text-red-200 mb-3 text-center">🩸 Damage Taken</h2>
+      ${rows}
+    </div>
+  `;
+}
+
 /**
  * sets up event listeners for death screen buttons
  */
 function setupDeathScreenEventListeners(content: HTMLElement): void {
   const respawnButton = content.querySelector("#respawn-button") as HTMLButtonElement;
+  const spectateButton = content.querySelector("#spectate-button") as HTMLButtonElement;
   const mainMenuButton = content.querySelector("#main-menu-button") as HTMLButtonElement;
   
   if (respawnButton) {
     respawnButton.addEventListener("click", handleRespawn);
   }
   
+  if (spectateButton) {
+    spectateButton.addEventListener("click", handleSpectate);
+  }
+  
   if (mainMenuButton) {
     mainMenuButton.addEventListener("click", handleMainMenu);
   }
@@ -215,6 +257,19 @@ function handleRespawn(): void {
   }
 }
 
+/**
+ * handles spectate button click
+ */
+function handleSpectate(): void {
+  hideDeathScreen();
+  
+  // watch the room by clicking the menu's spectate button
+  const spectateButton = document.getElementById("spectate") as HTMLButtonElement;
+  if (spectateButton) {
+    spectateButton.click();
+  }
+}
+
 /**
  * handles main menu button click
  */
@@ -0,0 +1,126 @@
+/**
+ * flags.ts - renders team bases and recipe books for capture the flag
+ * the server decides who carries what, this module draws the books and keeps carried ones on their carrier
+ */
+
+declare const PIXI: any;
+
+import type { FlagData } from './types.js';
+import { getFlagConfig } from './constants-loader.js';
+import { getTeamTint } from './teams.js';
+
+// Load flag configuration from backend
+const flagConfig = await getFlagConfig();
+const FLAG_CONFIG = flagConfig || {
+    SIZE: 56,
+    BASE_SIZE: 160,
+    ICON: '📖',
+};
+
+// carried books float above the carrier's head
+const CARRIED_OFFSET_Y = 60;
+
+// ===== FLAG STATE =====
+
+// base marker and book sprites for each team
+let baseSprites: Record<string, any> = {};
+let flagSprites: Record<string, any> = {};
+let carrierIds: Record<string, string | null> = {};
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Create the layer bases and books are drawn in, above pickups
+ */
+export function flag_layer_init(app: any): any {
+    const layer = new PIXI.Container();
+    app.stage.addChildAt(layer, Math.min(2, app.stage.children.length));
+    return layer;
+}
+
+/**
+ * Redraw every base and book (sent when a book is stolen, dropped, returned or captured)
+ */
+export function renderFlags(layer: any, flags: Record<string, FlagData>): void {
+    clearFlags(layer);
+
+    for (const [team, flag] of Object.entries(flags)) {
+        const base = createBaseSprite(team);
+        base.x = flag.baseX;
+        base.y = flag.baseY;
+        layer.addChild(base);
+        baseSprites[team] = base;
+
+        const book = createFlagSprite(team);
+        book.x = flag.x + flag.width / 2;
+        book.y = flag.y + flag.height / 2;
+        layer.addChild(book);
+        flagSprites[team] = book;
+        carrierIds[team] = flag.carrierId;
+    }
+}
+
+/**
+ * Move carried books to their carriers' current positions (called every frame)
+ * Books whose carrier is not visible are hidden until the next update
+ */
+export function positionCarriedFlags(getCarrierPosition: (playerId: string) => { x: number; y: number } | null): void {
+    for (const [team, carrierId] of Object.entries(carrierIds)) {
+        if (!carrierId) continue;
+
+        const book = flagSprites[team];
+        const position = getCarrierPosition(carrierId);
+        book.visible = position !== null;
+        if (position) {
+            book.x = position.x;
+            book.y = position.y - CARRIED_OFFSET_Y;
+        }
+    }
+}
+
+/**
+ * Remove every base and book (for mode changes)
+ */
+export function clearFlags(layer: any): void {
+    for (const sprite of [...Object.values(baseSprites), ...Object.values(flagSprites)]) {
+        layer.removeChild(sprite);
+        sprite.destroy({ children: true });
+    }
+    baseSprites = {};
+    flagSprites = {};
+    carrierIds = {};
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Build the team-colored capture zone drawn at a base, the same square the server checks captures against
+ */
+function createBaseSprite(team: string): any {
+    const base = new PIXI.Graphics();
+    base.lineStyle({ width: 4, color: getTeamTint(team), alpha: 0.8 });
+    base.beginFill(getTeamTint(team), 0.2);
+    base.drawRect(-FLAG_CONFIG.BASE_SIZE / 2, -FLAG_CONFIG.BASE_SIZE / 2, FLAG_CONFIG.BASE_SIZE, FLAG_CONFIG.BASE_SIZE);
+    base.endFill();
+    return base;
+}
+
+/**
+ * Build a recipe book icon on a team-colored disc
+ */
+function createFlagSprite(team: string): any {
+    const container = new PIXI.Container();
+
+    const disc = new PIXI.Graphics();
+    disc.lineStyle({ width: 3, color: 0x000000, alpha: 0.6 });
+    disc.beginFill(getTeamTint(team));
+    disc.drawCircle(0, 0, FLAG_CONFIG.SIZE / 2);
+    disc.endFill();
+    container.addChild(disc);
+
+    const icon = new PIXI.Text(FLAG_CONFIG.ICON, { fontSize: FLAG_CONFIG.SIZE * 0.6 });
+    icon.anchor.set(0.5, 0.5);
+    container.addChild(icon);
+
+    return container;
+}
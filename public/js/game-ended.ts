@@ -4,7 +4,7 @@
  */
 
 // Type imports
-import type { PlayerStats } from './types.js';
+import type { PlayerStats, GameModeSummary } from './types.js';
 
 // Constants imports
 import { GAME_DURATION_SECONDS, GAME_ENDED_AUTO_RETURN_SECONDS } from './constants-loader.js';
@@ -12,6 +12,9 @@ import { GAME_DURATION_SECONDS, GAME_ENDED_AUTO_RETURN_SECONDS } from './constan
 // Countdown utility imports
 import { startCountdown, stopCountdown } from './countdown-timer.js';
 
+// Team color imports
+import { getTeamCssColor, getTeamName } from './teams.js';
+
 // Styling imports
 import { applyGlassEffect, showMenuDimmer } from './styling.js';
 
@@ -20,7 +23,7 @@ import { applyGlassEffect, showMenuDimmer } from './styling.js';
 /**
  * creates and shows the game ended screen with final stats
  */
-export function showGameEndedScreen(finalStats: PlayerStats, gameResults: Array<PlayerStats & { username: string; socketId: string }>): void {
+export function showGameEndedScreen(finalStats: PlayerStats, gameResults: Array<PlayerStats & { username: string; socketId: string }>, mode?: GameModeSummary): void {
   // hide main UI and auth section
   const mainUI = document.getElementById("main-ui");
   const authSection = document.getElementById("auth-section");
@@ -35,7 +38,7 @@ export function showGameEndedScreen(finalStats: PlayerStats, gameResults: Array<
   const gameEndedScreen = createGameEndedContainer();
   
   // add game ended screen content
-  const content = createGameEndedContent(finalStats, gameResults);
+  const content = createGameEndedContent(finalStats, gameResults, mode);
   gameEndedScreen.appendChild(content);
   
   // add to body
@@ -90,7 +93,7 @@ function createGameEndedContainer(): HTMLElement {
 /**
  * creates the game ended screen content with stats and return button
  */
-function createGameEndedContent(finalStats: PlayerStats, gameResults: Array<PlayerStats & { username: string; socketId: string }>): HTMLElement {
+function createGameEndedContent(finalStats: PlayerStats, gameResults: Array<PlayerStats & { username: string; socketId: string }>, mode?: GameModeSummary): HTMLElement {
   const content = document.createElement("div");
   content.className = "rounded-3xl p-8 max-w-lg w-full mx-4 text-center shadow-2xl";
   
@@ -108,6 +111,7 @@ function createGameEndedContent(finalStats: PlayerStats, gameResults: Array<Play
         The ${gameTimeMinutes}-minute cooking battle has ended
       </p>
     </div>
+${createModeResults(mode, gameResults)}
 
     <!-- Final Game Stats -->
     <div class="bg-black bg-opacity-30 rounded-2xl p-6 mb-6 border border-orange-300 border-opacity-50">
@@ -194,6 +198,65 @@ function handleReturnToMenu(): void {
   hideGameEndedScreen();
 }
 
+/**
+ * creates the winning team banner and team totals, or the top scorer in solo scoring modes
+ * empty in modes ranked by kills alone
+ */
+function createModeResults(mode: GameModeSummary | undefined, gameResults: Array<PlayerStats & { username: string; socketId: string }>): string {
+  if (!mode) return '';
+  if (mode.winner) {
+    return `
+    <!-- Mode Results -->
+    <div class="mb-6">
+      <h2 class="text-2xl font-bold text-white mb-1">🏆 ${mode.winner} wins!</h2>
+      <p class="text-orange-100">The last chef standing in ${mode.name}</p>
+    </div>
+`;
+  }
+  if (mode.teams.length === 0) {
+    return createSoloResults(mode, gameResults);
+  }
+
+  const scores = mode.teams.map(team => mode.teamScores[team] ?? 0);
+  const topScore = Math.max(...scores);
+  const leaders = mode.teams.filter(team => (mode.teamScores[team] ?? 0) === topScore);
+  const headline = leaders.length === 1 ? `${getTeamName(leaders[0])} wins!` : "It's a draw!";
+
+  const totals = mode.teams.map(team => `
+        <div class="bg-black bg-opacity-30 rounded-xl p-3" style="border-bottom: 4px solid ${getTeamCssColor(team)}">
+          <div class="text-2xl font-bold">${mode.teamScores[team] ?? 0}</div>
+          <div class="text-sm text-orange-200">${getTeamName(team)}</div>
+        </div>`).join('');
+
+  return `
+    <!-- Team Results -->
+    <div class="mb-6">
+      <h2 class="text-2xl font-bold text-white mb-3">🏆 ${headline}</h2>
+      <div class="grid grid-cols-2 gap-4 text-white">${totals}
+      </div>
+    </div>
+`;
+}
+
+/**
+ * creates the top scorer banner for solo scoring modes, such as holding the kitchen
+ */
+function createSoloResults(mode: GameModeSummary, gameResults: Array<PlayerStats & { username: string; socketId: string }>): string {
+  const scores = Object.entries(mode.playerScores);
+  if (mode.scoreLimit === null || scores.length === 0) return '';
+
+  const [winnerId, winnerScore] = scores.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const winner = gameResults.find(result => result.socketId === winnerId);
+
+  return `
+    <!-- Mode Results -->
+    <div class="mb-6">
+      <h2 class="text-2xl font-bold text-white mb-1">🏆 ${winner?.username ?? 'A chef'} wins!</h2>
+      <p class="text-orange-100">${winnerScore} / ${mode.scoreLimit} points in ${mode.name}</p>
+    </div>
+`;
+}
+
 /**
  * determines performance badge based on stats
  */
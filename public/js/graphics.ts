@@ -5,55 +5,65 @@ const Assets = PIXI.Assets;
 const Graphics = PIXI.Graphics;
 
 // Type imports
-import type { WallData } from './types.js';
+import type { MapData, WallData } from './types.js';
 import { notification_init } from './notifications.js';
 
-function createTileMap() {
-    return [[1, 1, 1, 1, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 4, 4, 4, 4, 4, 4, 4, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 4, 4, 4, 4, 4, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 3, 3, 2, 2, 2, 2, 2, 3, 3, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3], [3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3], [3, 3, 3, 3, 3, 2, 3, 3, 3, 2, 2, 2, 2, 2, 3, 3, 3, 2, 3, 3, 3, 3, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 3, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 4, 2, 2, 2, 2, 2, 2, 2, 2, 4, 3, 4, 2, 2, 2, 2, 2, 2, 2, 2, 4, 3], [3, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 3, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 3], [3, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 3], [3, 4, 4, 3, 2, 2, 2, 2, 4, 4, 4, 4, 4, 4, 4, 2, 2, 2, 2, 3, 4, 4, 3], [3, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 3], [3, 4, 4, 3, 2, 2, 2, 2, 2, 3, 4, 3, 4, 3, 2, 2, 2, 2, 2, 3, 4, 4, 3], [3, 4, 2, 2, 2, 2, 2, 2, 2, 2, 4, 3, 4, 2, 2, 2, 2, 2, 2, 2, 2, 4, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 3, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 2, 2, 2, 2, 3], [3, 3, 3, 3, 3, 2, 3, 3, 3, 2, 2, 2, 2, 2, 3, 3, 3, 2, 3, 3, 3, 3, 3], [3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3], [3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 2, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 3, 3, 2, 2, 2, 2, 2, 3, 3, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 2, 4, 4, 4, 4, 4, 2, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 2, 4, 4, 4, 4, 4, 4, 4, 2, 3, 1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 1, 1, 1, 1, 1, 1]];
-}
-
+// tile sprites of the current map, replaced when the map changes
+let tileLayer: any = null;
 
-export async function background_init(app: any, socket: any) {
-    let walls: Record<string, WallData> = {};
+export async function background_init(app: any, mapData: MapData | null) {
     app.renderer.background.color = "#b1cefc";
     app.renderer.resize(window.innerWidth, window.innerHeight);
     app.renderer.view.style.position = "absolute";
 
-    const tileMap = createTileMap();
-    Assets.load('images/simple_textures.png').then((texture) => {
-        // Create textures for each tile number
-        const tileTextures: {[key: number]: any} = {};
-        for (let j = 1; j <= 4; j++) { // 4 columns
-            const tileX = (j - 1) * 64;
-            tileTextures[j] = new PIXI.Texture(texture, new PIXI.Rectangle(tileX, 0, 64, 63.7));
+    // remove the previous map's tiles when rebuilding
+    if (tileLayer) {
+        app.stage.removeChild(tileLayer);
+        tileLayer.destroy({ children: true });
+        tileLayer = null;
+    }
+
+    if (!mapData) {
+        return {};
+    }
+
+    // Create textures for each tile gid from the map's tilesets
+    const tileTextures: {[key: number]: any} = {};
+    for (const tileset of mapData.tilesets) {
+        if (!tileset.image) continue;
+        const texture = await Assets.load(tileset.image);
+        for (let localId = 0; localId < tileset.tileCount; localId++) {
+            const tileX = (localId % tileset.columns) * tileset.tileWidth;
+            const tileY = Math.floor(localId / tileset.columns) * tileset.tileHeight;
+            tileTextures[tileset.firstGid + localId] = new PIXI.Texture(texture, new PIXI.Rectangle(tileX, tileY, tileset.tileWidth, tileset.tileHeight - 0.3));
         } // weird spacing issue between columns, so made it consistent by adding same spacing offset between rows
+    }
 
-        const scale = 2; // scales the sprites
-        tileMap.forEach((row, rowIndex) => {
+    // world size of one map cell
+    const cellWidth = mapData.tileWidth * mapData.scale;
+    const cellHeight = mapData.tileHeight * mapData.scale;
+
+    // tiles go in their own container at the bottom of the stage so they can be swapped out
+    tileLayer = new PIXI.Container();
+    mapData.layers.forEach((layer) => {
+        layer.forEach((row, rowIndex) => {
             row.forEach((tile, colIndex) => {
+                if (!tileTextures[tile]) return; // empty cell or tileset without an image
                 const sprite = new PIXI.Sprite(tileTextures[tile]);
-                // position the sprite
-                sprite.x = colIndex * 64 * scale;
-                sprite.y = rowIndex * 64 * scale;
-                sprite.scale.set(scale, scale);
-
-
-                app.stage.addChild(sprite);
-                if (tile === 3) { // tiles with collision box
-                    let wallData: WallData = {
-                        id: `wall_${rowIndex}_${colIndex}`,
-                        x: sprite.x + 8,
-                        y: sprite.y + 8,
-                        width: sprite.width, // Adjusted to account for scale
-                        height: sprite.height  // Adjusted to account for scale
-                    };
-                    socket.emit('addWall', wallData);
-                    walls[wallData.id] = wallData;
-                }
+                // position and size the sprite to fill its cell
+                sprite.x = colIndex * cellWidth;
+                sprite.y = rowIndex * cellHeight;
+                sprite.width = cellWidth;
+                sprite.height = cellHeight;
+
+                tileLayer.addChild(sprite);
             });
         });
     });
-    return walls;
+    app.stage.addChildAt(tileLayer, 0);
+
+    // collision boxes come from the server, the client only uses them for prediction and debugging
+    return mapData.walls;
 }
 
 export async function player_init() {
@@ -140,6 +150,17 @@ export function health_bar_value_init() {
     return healthBarValue;
 }
 
+// armor is drawn as a thinner blue bar under the health bar
+export function armor_bar_value_init() {
+    const armorBarValue = new Graphics();
+    armorBarValue.beginFill(0x4dabf7);
+    armorBarValue.drawRoundedRect(0, 0, 60, 3, 10);
+    armorBarValue.endFill();
+    armorBarValue.x = 0;
+    armorBarValue.y = 0;
+    return armorBarValue;
+}
+
 export function socket_text_init(socket: any) {
     const socketText = new PIXI.Text("SOCKET ID: " + socket.id, {
         fontFamily: "Fredoka One",
@@ -179,8 +200,8 @@ export function ping_init() {
     return pingText;
 }
 
-export function wall_count_init() {
-    const wallCount = new PIXI.Text("Walls: " + createTileMap().flat().filter(tile => tile === 4).length, {
+export function wall_count_init(walls: Record<string, WallData>) {
+    const wallCount = new PIXI.Text("Walls: " + Object.keys(walls).length, {
         fontFamily: "Fredoka One",
         fontSize: 30,
         fill: "ffffff",
@@ -0,0 +1,80 @@
+/**
+ * gun-game.ts - HUD for the gun game weapon ladder
+ * the server swaps weapons on each kill, this module shows the player's current and next weapon
+ */
+
+import type { GameModeSummary } from './types.js';
+import { getGunGameConfig, getWeaponRegistry } from './constants-loader.js';
+
+// Load ladder configuration from backend
+const gunGameConfig = await getGunGameConfig();
+const GUN_GAME_CONFIG = gunGameConfig || {
+    LADDER: ['rifle', 'shotgun', 'sniper'],
+};
+const WEAPON_REGISTRY = (await getWeaponRegistry()) || {};
+
+// mode id of gun game on the server
+const GUN_GAME_MODE_ID = 'gun';
+
+// ===== LADDER STATE =====
+
+let hudElement: HTMLElement | null = null;
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Show the player's step on the ladder, or hide the HUD outside gun game
+ */
+export function renderLadder(mode: GameModeSummary, playerId: string): void {
+    if (mode.modeId !== GUN_GAME_MODE_ID) {
+        clearLadder();
+        return;
+    }
+
+    if (!hudElement) {
+        hudElement = createHud();
+    }
+    hudElement.style.display = 'block';
+
+    const ladder: string[] = GUN_GAME_CONFIG.LADDER;
+    const index = Math.min(mode.playerScores[playerId] ?? 0, ladder.length - 1);
+    const isFinalWeapon = index === ladder.length - 1;
+
+    const current = hudElement.querySelector('#ladder-hud-current') as HTMLElement;
+    const next = hudElement.querySelector('#ladder-hud-next') as HTMLElement;
+    current.textContent = `🔪 ${getWeaponName(ladder[index])} (${index + 1}/${ladder.length})`;
+    next.textContent = isFinalWeapon ? 'One more kill to win!' : `Next: ${getWeaponName(ladder[index + 1])}`;
+}
+
+/**
+ * Hide the HUD (for mode changes)
+ */
+export function clearLadder(): void {
+    if (hudElement) {
+        hudElement.style.display = 'none';
+    }
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Get the display name for a weapon
+ */
+function getWeaponName(weaponId: string): string {
+    return WEAPON_REGISTRY[weaponId]?.NAME ?? weaponId;
+}
+
+/**
+ * Create the ladder HUD element at the top of the screen
+ */
+function createHud(): HTMLElement {
+    const hud = document.createElement('div');
+    hud.id = 'ladder-hud';
+    hud.className = 'fixed top-4 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none bg-gray-900/80 border border-gray-700 rounded-xl px-4 py-2 w-72 text-center font-game';
+    hud.innerHTML = `
+      <div id="ladder-hud-current" class="text-sm text-white"></div>
+      <div id="ladder-hud-next" class="text-xs text-gray-300"></div>
+    `;
+    document.body.appendChild(hud);
+    return hud;
+}
@@ -0,0 +1,150 @@
+/**
+ * hill.ts - renders the king of the hill zone and its capture-progress HUD
+ * the server decides who holds the zone, this module draws the zone and shows progress from each update
+ */
+
+declare const PIXI: any;
+
+import type { HillState } from './types.js';
+import { getTeamTint, getTeamCssColor, isTeam } from './teams.js';
+
+// zone colors when it is free, contested, or held by a player without a team
+const FREE_COLOR = 0xffffff;
+const CONTESTED_COLOR = 0xff922b;
+const PLAYER_HOLDER_COLOR = 0xffd54f;
+
+// ===== HILL STATE =====
+
+let zoneGraphics: any = null;
+let hudElement: HTMLElement | null = null;
+let lastZoneKey = '';
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Create the layer the zone is drawn in, just above the map tiles
+ */
+export function hill_layer_init(app: any): any {
+    const layer = new PIXI.Container();
+    app.stage.addChildAt(layer, Math.min(1, app.stage.children.length));
+    return layer;
+}
+
+/**
+ * Draw the zone and update the HUD, or remove both when the mode has no hill
+ */
+export function renderHill(layer: any, hill: HillState | null): void {
+    if (!hill) {
+        clearHill(layer);
+        return;
+    }
+
+    // only redraw the zone when its area or owner color changes
+    const color = getZoneColor(hill);
+    const zoneKey = `${hill.id}:${color}`;
+    if (zoneKey !== lastZoneKey) {
+        clearZone(layer);
+        zoneGraphics = createZoneGraphics(hill, color);
+        layer.addChild(zoneGraphics);
+        lastZoneKey = zoneKey;
+    }
+
+    updateHud(hill);
+}
+
+/**
+ * Remove the zone and hide the HUD (for mode changes)
+ */
+export function clearHill(layer: any): void {
+    clearZone(layer);
+    if (hudElement) {
+        hudElement.style.display = 'none';
+    }
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Remove the zone graphics from the layer
+ */
+function clearZone(layer: any): void {
+    if (zoneGraphics) {
+        layer.removeChild(zoneGraphics);
+        zoneGraphics.destroy();
+        zoneGraphics = null;
+    }
+    lastZoneKey = '';
+}
+
+/**
+ * Get the zone color from who holds it
+ */
+function getZoneColor(hill: HillState): number {
+    if (hill.contested) return CONTESTED_COLOR;
+    if (!hill.holderId) return FREE_COLOR;
+    return isTeam(hill.holderId) ? getTeamTint(hill.holderId) : PLAYER_HOLDER_COLOR;
+}
+
+/**
+ * Build the outlined, lightly filled zone rectangle
+ */
+function createZoneGraphics(hill: HillState, color: number): any {
+    const graphics = new PIXI.Graphics();
+    graphics.lineStyle({ width: 6, color, alpha: 0.9 });
+    graphics.beginFill(color, 0.15);
+    graphics.drawRect(0, 0, hill.width, hill.height);
+    graphics.endFill();
+    graphics.x = hill.x;
+    graphics.y = hill.y;
+    return graphics;
+}
+
+/**
+ * Create the capture-progress HUD element at the top of the screen
+ */
+function createHud(): HTMLElement {
+    const hud = document.createElement('div');
+    hud.id = 'hill-hud';
+    hud.className = 'fixed top-4 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none bg-gray-900/80 border border-gray-700 rounded-xl px-4 py-2 w-72 text-center font-game';
+    hud.innerHTML = `
+      <div id="hill-hud-status" class="text-sm text-white mb-1"></div>
+      <div class="h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div id="hill-hud-progress" class="h-full rounded-full" style="width: 0%"></div>
+      </div>
+    `;
+    document.body.appendChild(hud);
+    return hud;
+}
+
+/**
+ * Show who holds, is taking, or is fighting over the zone
+ */
+function updateHud(hill: HillState): void {
+    if (!hudElement) {
+        hudElement = createHud();
+    }
+    hudElement.style.display = 'block';
+
+    const status = hudElement.querySelector('#hill-hud-status') as HTMLElement;
+    const progress = hudElement.querySelector('#hill-hud-progress') as HTMLElement;
+
+    let text = 'The kitchen is free - stand in it alone to take it';
+    let fill = 0;
+    let side = hill.holderId;
+    if (hill.contested) {
+        text = 'Kitchen contested!';
+        fill = hill.progress;
+        side = hill.capturingId;
+    } else if (hill.capturingId) {
+        text = `${hill.capturingName} is taking the kitchen`;
+        fill = hill.progress;
+        side = hill.capturingId;
+    } else if (hill.holderId) {
+        text = `${hill.holderName} holds the kitchen`;
+        fill = 1;
+    }
+
+    status.textContent = text;
+    progress.style.width = `${Math.round(fill * 100)}%`;
+    progress.style.backgroundColor = side && isTeam(side) ? getTeamCssColor(side) : '#FFD54F';
+}
@@ -0,0 +1,161 @@
+/**
+ * interpolation.ts - snapshot interpolation for remote entities
+ * buffers server snapshots and renders enemies and bullets slightly in the past
+ */
+
+// ===== TYPES =====
+
+interface InterpolatedEntity {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+interface Snapshot<T extends InterpolatedEntity> {
+  serverTime: number;
+  entities: Record<string, T>;
+}
+
+interface InterpolationConfig {
+  RENDER_DELAY_MS: number;
+  MAX_EXTRAPOLATION_MS: number;
+  MAX_SNAPSHOTS: number;
+}
+
+// ===== SERVER CLOCK =====
+
+// smoothing factor for the server clock offset estimate
+const CLOCK_SMOOTHING = 0.1;
+
+let serverTimeOffset: number | null = null;
+
+/**
+ * updates the estimated offset between the server clock and the local clock
+ */
+function observeServerTime(serverTime: number): void {
+  const sample = serverTime - Date.now();
+  serverTimeOffset = serverTimeOffset === null
+    ? sample
+    : serverTimeOffset + (sample - serverTimeOffset) * CLOCK_SMOOTHING;
+}
+
+/**
+ * estimates the current server time from the local clock
+ */
+export function estimateServerTime(): number {
+  return Date.now() + (serverTimeOffset ?? 0);
+}
+
+// ===== SNAPSHOT BUFFER CLASS =====
+
+export class SnapshotBuffer<T extends InterpolatedEntity> {
+  private snapshots: Snapshot<T>[] = [];
+  private config: InterpolationConfig;
+
+  constructor(config: InterpolationConfig) {
+    this.config = config;
+  }
+
+  /**
+   * adds a server snapshot to the buffer
+   */
+  public push(serverTime: number, entities: Record<string, T>): void {
+    observeServerTime(serverTime);
+
+    // ignore snapshots that arrive out of order
+    const newest = this.snapshots[this.snapshots.length - 1];
+    if (newest && serverTime <= newest.serverTime) return;
+
+    this.snapshots.push({ serverTime, entities });
+    if (this.snapshots.length > this.config.MAX_SNAPSHOTS) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * returns the server time currently being rendered (server time minus render delay)
+   */
+  public getRenderTime(): number {
+    return estimateServerTime() - this.config.RENDER_DELAY_MS;
+  }
+
+  /**
+   * returns entity states at the current render time
+   */
+  public sample(): Record<string, T> {
+    const renderTime = this.getRenderTime();
+
+    if (this.snapshots.length === 0) return {};
+
+    // drop snapshots that are no longer needed to bracket the render time
+    while (this.snapshots.length > 2 && this.snapshots[1].serverTime <= renderTime) {
+      this.snapshots.shift();
+    }
+
+    const [older, newer] = this.snapshots;
+
+    // not enough history yet, or render time is before the buffer
+    if (!newer || renderTime <= older.serverTime) {
+      return older.entities;
+    }
+
+    // interpolate between the two snapshots around the render time
+    if (renderTime <= newer.serverTime) {
+      const t = (renderTime - older.serverTime) / (newer.serverTime - older.serverTime);
+      return this.blend(older, newer, t);
+    }
+
+    // packet loss: extrapolate from the last two snapshots for a short while
+    const latest = this.snapshots[this.snapshots.length - 1];
+    const previous = this.snapshots[this.snapshots.length - 2];
+    const extrapolation = Math.min(renderTime - latest.serverTime, this.config.MAX_EXTRAPOLATION_MS);
+    const t = 1 + extrapolation / (latest.serverTime - previous.serverTime);
+    return this.blend(previous, latest, t);
+  }
+
+  /**
+   * clears all buffered snapshots
+   */
+  public clear(): void {
+    this.snapshots = [];
+  }
+
+  /**
+   * blends positions between two snapshots (t > 1 extrapolates)
+   * entities follow the older snapshot so removals appear in sync with movement
+   */
+  private blend(from: Snapshot<T>, to: Snapshot<T>, t: number): Record<string, T> {
+    const result: Record<string, T> = {};
+
+    for (const id in from.entities) {
+      const start = from.entities[id];
+      const end = to.entities[id];
+
+      if (!end) {
+        result[id] = start;
+        continue;
+      }
+
+      result[id] = {
+        ...start,
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+        rotation: lerpAngle(start.rotation, end.rotation, t),
+      };
+    }
+
+    return result;
+  }
+}
+
+// ===== UTILITY FUNCTIONS =====
+
+/**
+ * interpolates between two angles along the shortest arc
+ */
+function lerpAngle(from: number, to: number, t: number): number {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return from + delta * t;
+}
@@ -16,6 +16,8 @@ export interface LeaderboardEntry {
   total_shots_fired: number;
   total_shots_hit: number;
   best_game_kills: number;
+  best_streak: number;
+  total_assists: number;
 }
 
 /**
@@ -60,6 +62,7 @@ export class LeaderboardManager {
             <option value="kdr">⚔️ Best K/D Ratio</option>
             <option value="accuracy">🎯 Best Accuracy</option>
             <option value="time_alive">⏱️ Longest Survivor</option>
+            <option value="assists">🤝 Most Assists</option>
           </select>
         </div>
         
@@ -300,6 +303,8 @@ export class LeaderboardManager {
         return entry.avg_accuracy.toFixed(1) + '%';
       case 'time_alive':
         return this.formatTime(entry.total_time_alive);
+      case 'assists':
+        return entry.total_assists.toString();
       default:
         return entry.total_kills.toString();
     }
@@ -318,6 +323,8 @@ export class LeaderboardManager {
         return `${entry.total_kills} kills`;
       case 'time_alive':
         return `${entry.total_kills} kills`;
+      case 'assists':
+        return `${entry.total_kills} kills`;
       default:
         return `${entry.avg_kdr.toFixed(2)} K/D`;
     }
@@ -0,0 +1,32 @@
+/**
+ * map-loader.ts - loads the current map from backend API
+ * The server owns the map layout and walls, the client only draws them
+ */
+
+import type { MapData } from './types.js';
+
+interface MapResponse {
+  success: boolean;
+  data?: MapData;
+  error?: string;
+}
+
+/**
+ * Fetches the map for a room from the backend API
+ * Returns null if the map could not be loaded
+ */
+export async function loadMapData(roomId: string): Promise<MapData | null> {
+  try {
+    const response = await fetch(`/api/map?room=${encodeURIComponent(roomId)}`);
+    const result: MapResponse = await response.json();
+
+    if (result.success && result.data) {
+      return result.data;
+    } else {
+      throw new Error(result.error || 'Failed to fetch map');
+    }
+  } catch (error) {
+    console.error('❌ Failed to load map from backend:', error);
+    return null;
+  }
+}
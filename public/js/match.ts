@@ -0,0 +1,130 @@
+/**
+ * match.ts - phase banners for warmup, round countdowns, round results and intermissions
+ * the server moves the match between phases, this module shows the current one and counts it down
+ */
+
+import type { MatchSummary } from './types.js';
+import { getTeamCssColor, isTeam } from './teams.js';
+
+// how long the "round started" banner stays up
+const LIVE_BANNER_MS = 2000;
+
+// ===== MATCH STATE =====
+
+let bannerElement: HTMLElement | null = null;
+let countdownTimer: number | null = null;
+let hideTimer: number | null = null;
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Show the banner for the match's current phase
+ */
+export function renderMatch(match: MatchSummary): void {
+    stopTimers();
+
+    if (!bannerElement) {
+        bannerElement = createBanner();
+    }
+    bannerElement.style.display = 'block';
+
+    const title = bannerElement.querySelector('#match-banner-title') as HTMLElement;
+    const detail = bannerElement.querySelector('#match-banner-detail') as HTMLElement;
+    const score = bannerElement.querySelector('#match-banner-score') as HTMLElement;
+    score.innerHTML = createScoreLine(match);
+
+    switch (match.phase) {
+        case 'warmup':
+            title.textContent = '🔥 Warmup';
+            detail.textContent = match.playersNeeded > 0
+                ? `Waiting for ${match.playersNeeded} more chef${match.playersNeeded === 1 ? '' : 's'} - kills don't count yet`
+                : 'Match starting soon';
+            break;
+        case 'countdown':
+            title.textContent = `Round ${match.round + 1} of ${match.totalRounds}`;
+            startCountdown(detail, match.remainingMs, seconds => `Starts in ${seconds}...`);
+            break;
+        case 'live':
+            title.textContent = `Round ${match.round} - Cook!`;
+            detail.textContent = `First to ${match.winsNeeded} round${match.winsNeeded === 1 ? '' : 's'} takes the match`;
+            hideTimer = window.setTimeout(hideBanner, LIVE_BANNER_MS);
+            break;
+        case 'round_end':
+            title.textContent = match.roundWinner ? `🏆 ${match.roundWinner} wins round ${match.round}` : `Round ${match.round} is a draw`;
+            detail.textContent = '';
+            break;
+        case 'intermission':
+            title.textContent = 'Intermission';
+            startCountdown(detail, match.remainingMs, seconds => `Next round in ${seconds}s`);
+            break;
+    }
+}
+
+/**
+ * Hide the banner (when the match ends)
+ */
+export function hideBanner(): void {
+    stopTimers();
+    if (bannerElement) {
+        bannerElement.style.display = 'none';
+    }
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Create the phase banner in the upper middle of the screen
+ */
+function createBanner(): HTMLElement {
+    const banner = document.createElement('div');
+    banner.id = 'match-banner';
+    banner.className = 'fixed top-24 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none bg-gray-900/80 border border-gray-700 rounded-xl px-6 py-3 text-center font-game';
+    banner.innerHTML = `
+      <div id="match-banner-title" class="text-xl font-bold text-white"></div>
+      <div id="match-banner-detail" class="text-sm text-gray-300"></div>
+      <div id="match-banner-score" class="text-sm text-white mt-1"></div>
+    `;
+    document.body.appendChild(banner);
+    return banner;
+}
+
+/**
+ * Build the round wins line, each side colored by its team
+ */
+function createScoreLine(match: MatchSummary): string {
+    if (match.roundWins.length === 0) return '';
+
+    return match.roundWins
+        .map(({ side, name, wins }) => {
+            const color = isTeam(side) ? getTeamCssColor(side) : '#FFD54F';
+            return `<span style="color: ${color}">${name} ${wins}</span>`;
+        })
+        .join(' · ');
+}
+
+/**
+ * Count a phase down once per second from the time the server said was left
+ */
+function startCountdown(element: HTMLElement, remainingMs: number | null, format: (seconds: number) => string): void {
+    const endsAt = Date.now() + (remainingMs ?? 0);
+    const update = () => {
+        const seconds = Math.max(Math.ceil((endsAt - Date.now()) / 1000), 0);
+        element.textContent = format(seconds);
+    };
+    update();
+    countdownTimer = window.setInterval(update, 250);
+}
+
+/**
+ * Stop the countdown and auto-hide timers
+ */
+function stopTimers(): void {
+    if (countdownTimer !== null) {
+        clearInterval(countdownTimer);
+        countdownTimer = null;
+    }
+    if (hideTimer !== null) {
+        clearTimeout(hideTimer);
+        hideTimer = null;
+    }
+}
@@ -12,6 +12,9 @@ export const keyboard = {
     shift: false,
     r: false,
     t: false, // leaderboard visibility key
+    1: false, // weapon slot keys
+    2: false,
+    3: false,
 };
 
 export function handleMouseMove(event: MouseEvent) {
@@ -0,0 +1,102 @@
+/**
+ * pickups.ts - renders health, ammo, weapon and armor pickups sent by the server
+ * the server decides what exists and who collected it, this module only draws the current set
+ */
+
+declare const PIXI: any;
+
+import type { PickupData } from './types.js';
+import { getPickupConfig, getWeaponRegistry } from './constants-loader.js';
+
+// Load pickup configuration from backend
+const pickupConfig = await getPickupConfig();
+const PICKUP_CONFIG = pickupConfig || {
+    AMMO_ICON: '🥫',
+    WEAPON_ICON: '🔪',
+    ARMOR_ICON: '🦺',
+    HEALTH_ITEMS: {},
+};
+const WEAPON_REGISTRY = (await getWeaponRegistry()) || {};
+
+// ===== PICKUP STATE =====
+
+// sprites drawn for each pickup id
+let pickupSprites: Record<string, any> = {};
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Create the layer pickups are drawn in, just above the map tiles
+ */
+export function pickup_layer_init(app: any): any {
+    const layer = new PIXI.Container();
+    app.stage.addChildAt(layer, Math.min(1, app.stage.children.length));
+    return layer;
+}
+
+/**
+ * Draw the active pickups and remove collected or expired ones
+ */
+export function renderPickups(layer: any, pickups: Record<string, PickupData>): void {
+    for (const id in pickupSprites) {
+        if (!pickups[id] || !pickups[id].active) {
+            layer.removeChild(pickupSprites[id]);
+            pickupSprites[id].destroy({ children: true });
+            delete pickupSprites[id];
+        }
+    }
+
+    for (const [id, pickup] of Object.entries(pickups)) {
+        if (!pickup.active || pickupSprites[id]) continue;
+
+        const sprite = createPickupSprite(pickup);
+        sprite.x = pickup.x + pickup.width / 2;
+        sprite.y = pickup.y + pickup.height / 2;
+        layer.addChild(sprite);
+        pickupSprites[id] = sprite;
+    }
+}
+
+/**
+ * Remove every pickup sprite (for map changes)
+ */
+export function clearPickups(layer: any): void {
+    renderPickups(layer, {});
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Build the icon (and weapon name label) for a pickup
+ */
+function createPickupSprite(pickup: PickupData): any {
+    const container = new PIXI.Container();
+
+    let icon = PICKUP_CONFIG.AMMO_ICON;
+    if (pickup.kind === 'health') {
+        icon = PICKUP_CONFIG.HEALTH_ITEMS[pickup.item]?.ICON ?? '🍔';
+    } else if (pickup.kind === 'weapon') {
+        icon = PICKUP_CONFIG.WEAPON_ICON;
+    } else if (pickup.kind === 'armor') {
+        icon = PICKUP_CONFIG.ARMOR_ICON;
+    }
+
+    const iconText = new PIXI.Text(icon, { fontSize: pickup.height * 0.8 });
+    iconText.anchor.set(0.5, 0.5);
+    container.addChild(iconText);
+
+    if (pickup.kind === 'weapon') {
+        const label = new PIXI.Text(WEAPON_REGISTRY[pickup.item]?.NAME ?? pickup.item, {
+            fontFamily: 'Arial',
+            fontSize: 14,
+            fill: 0xffffff,
+            stroke: 0x000000,
+            strokeThickness: 3,
+        });
+        label.anchor.set(0.5, 0);
+        label.y = pickup.height / 2;
+        container.addChild(label);
+    }
+
+    return container;
+}
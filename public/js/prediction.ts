@@ -0,0 +1,126 @@
+/**
+ * prediction.ts - client-side movement prediction
+ * applies local input immediately and reconciles with authoritative server state
+ */
+
+import type { WallData, BoundingBox, PlayerInput } from './types.js';
+import { getGameConfig } from './constants-loader.js';
+
+// ===== PREDICTION STATE =====
+interface PredictedPosition {
+    x: number;
+    y: number;
+}
+
+// Load movement configuration from backend (must mirror server physics)
+const gameConfig = await getGameConfig();
+const MOVEMENT_CONFIG = {
+    PLAYER_SIZE: gameConfig?.PLAYER_SIZE ?? 70,
+    PLAYER_BASE_SPEED: gameConfig?.PLAYER_BASE_SPEED ?? 300,
+    PLAYER_SPRINT_BONUS: gameConfig?.PLAYER_SPRINT_BONUS ?? 150,
+    PHYSICS_DELTA_TIME: gameConfig?.PHYSICS_DELTA_TIME ?? 1 / 60,
+};
+
+// inputs sent but not yet acknowledged by the server
+const MAX_PENDING_INPUTS = 120;
+
+let predictedPosition: PredictedPosition | null = null;
+let pendingInputs: PlayerInput[] = [];
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Apply an input locally and remember it until the server acknowledges it
+ * Returns the predicted position, or null before the first authoritative state
+ */
+export function predictMovement(input: PlayerInput, walls: Record<string, WallData>): Readonly<PredictedPosition> | null {
+    if (!predictedPosition) {
+        return null;
+    }
+
+    applyMovement(predictedPosition, input, walls);
+
+    pendingInputs.push(input);
+    if (pendingInputs.length > MAX_PENDING_INPUTS) {
+        pendingInputs.shift();
+    }
+
+    return { ...predictedPosition };
+}
+
+/**
+ * Reset to the authoritative server position and replay unacknowledged inputs
+ */
+export function reconcileWithServer(
+    serverState: { x: number; y: number; lastProcessedInput?: number },
+    walls: Record<string, WallData>
+): Readonly<PredictedPosition> {
+    const lastProcessedInput = serverState.lastProcessedInput ?? 0;
+
+    predictedPosition = { x: serverState.x, y: serverState.y };
+    pendingInputs = pendingInputs.filter(input => input.sequence > lastProcessedInput);
+
+    for (const input of pendingInputs) {
+        applyMovement(predictedPosition, input, walls);
+    }
+
+    return { ...predictedPosition };
+}
+
+/**
+ * Clear prediction state (for death, respawn or game end)
+ */
+export function resetPrediction(): void {
+    predictedPosition = null;
+    pendingInputs = [];
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Checks if two rectangular bounding boxes are colliding (mirrors server checkCollision)
+ */
+function checkCollision(aBox: BoundingBox, bBox: BoundingBox): boolean {
+    return (
+        aBox.x < bBox.x + bBox.width &&
+        aBox.x + aBox.width > bBox.x &&
+        aBox.y < bBox.y + bBox.height &&
+        aBox.y + aBox.height > bBox.y
+    );
+}
+
+/**
+ * Move a position by one tick of input (mirrors server determinePlayerMovement)
+ */
+function applyMovement(position: PredictedPosition, input: PlayerInput, walls: Record<string, WallData>): void {
+    let speed = MOVEMENT_CONFIG.PLAYER_BASE_SPEED;
+    if (input.keyboard.shift) {
+        speed += MOVEMENT_CONFIG.PLAYER_SPRINT_BONUS;
+    }
+    speed *= MOVEMENT_CONFIG.PHYSICS_DELTA_TIME;
+
+    const bounds: BoundingBox = {
+        x: position.x,
+        y: position.y,
+        width: MOVEMENT_CONFIG.PLAYER_SIZE,
+        height: MOVEMENT_CONFIG.PLAYER_SIZE,
+    };
+
+    let canMoveUp = true;
+    let canMoveLeft = true;
+    let canMoveDown = true;
+    let canMoveRight = true;
+
+    for (const wallId in walls) {
+        const wall = walls[wallId];
+        if (checkCollision(wall, { ...bounds, y: bounds.y - speed })) canMoveUp = false;
+        if (checkCollision(wall, { ...bounds, x: bounds.x - speed })) canMoveLeft = false;
+        if (checkCollision(wall, { ...bounds, y: bounds.y + speed })) canMoveDown = false;
+        if (checkCollision(wall, { ...bounds, x: bounds.x + speed })) canMoveRight = false;
+    }
+
+    if (input.keyboard.w && canMoveUp) position.y -= speed;
+    if (input.keyboard.a && canMoveLeft) position.x -= speed;
+    if (input.keyboard.s && canMoveDown) position.y += speed;
+    if (input.keyboard.d && canMoveRight) position.x += speed;
+}
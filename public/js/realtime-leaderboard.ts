@@ -3,6 +3,15 @@
  * displays current game leaderboard when holding the visibility key
  */
 
+// Type imports
+import type { GameModeSummary } from './types.js';
+
+// Team color imports
+import { getTeamCssColor, getTeamName } from './teams.js';
+
+// Spectator imports
+import { formatSpectatorCount } from './spectator.js';
+
 // ===== TYPES =====
 
 interface LeaderboardPlayer {
@@ -12,11 +21,13 @@ interface LeaderboardPlayer {
   deaths: number;
   isDead: boolean;
   isCurrentPlayer: boolean;
+  team?: string | null;
 }
 
 interface ServerLocationInfo {
   region: string;
   latency: number;
+  spectators?: number;
 }
 
 // ===== LEADERBOARD MANAGER CLASS =====
@@ -27,6 +38,7 @@ export class RealtimeLeaderboardManager {
   private players: LeaderboardPlayer[] = [];
   private serverInfo: ServerLocationInfo = { region: 'Unknown', latency: 0 };
   private currentPlayerSocketId: string = '';
+  private mode: GameModeSummary | null = null;
 
   constructor() {
     this.createLeaderboardElement();
@@ -74,7 +86,8 @@ export class RealtimeLeaderboardManager {
   public updateData(
     players: LeaderboardPlayer[],
     currentPlayerSocketId: string,
-    serverInfo?: ServerLocationInfo
+    serverInfo?: ServerLocationInfo,
+    mode?: GameModeSummary
   ): void {
     this.players = [...players];
     this.currentPlayerSocketId = currentPlayerSocketId;
@@ -83,11 +96,19 @@ export class RealtimeLeaderboardManager {
       this.serverInfo = serverInfo;
     }
 
-    // mark current player and sort by kills descending, then by deaths ascending
+    if (mode) {
+      this.mode = mode;
+    }
+
+    // mark current player and sort by objective score (in solo scoring modes), kills descending, then by deaths ascending
     this.players = this.players.map(player => ({
       ...player,
       isCurrentPlayer: player.socketId === currentPlayerSocketId
     })).sort((a, b) => {
+      const scoreDifference = this.getPlayerScore(b) - this.getPlayerScore(a);
+      if (scoreDifference !== 0) {
+        return scoreDifference; // Higher objective score first
+      }
       if (a.kills !== b.kills) {
         return b.kills - a.kills; // Higher kills first
       }
@@ -100,6 +121,20 @@ export class RealtimeLeaderboardManager {
     }
   }
 
+  /**
+   * checks if the mode ranks players by their own objective score instead of K/D
+   */
+  private isSoloScoring(): boolean {
+    return !!this.mode && this.mode.teams.length === 0 && this.mode.scoreLimit !== null;
+  }
+
+  /**
+   * gets a player's objective score, 0 outside solo scoring modes
+   */
+  private getPlayerScore(player: LeaderboardPlayer): number {
+    return this.mode?.playerScores[player.socketId] ?? 0;
+  }
+
   /**
    * calculates kill/death ratio
    */
@@ -128,10 +163,13 @@ export class RealtimeLeaderboardManager {
         LEADERBOARD
       </h2>
       <p class="text-chef-orange text-sm font-game">
-        Current Game Stats
+        ${this.mode?.name ?? 'Current Game Stats'}
       </p>
     `;
 
+    // create team totals row for team modes
+    const teamRow = this.createTeamRow();
+
     // create table container
     const tableContainer = document.createElement('div');
     tableContainer.className = 'space-y-1';
@@ -143,7 +181,7 @@ export class RealtimeLeaderboardManager {
       <div class="col-span-5 text-left">CHEF</div>
       <div class="col-span-2 text-center">KILLS</div>
       <div class="col-span-2 text-center">DEATHS</div>
-      <div class="col-span-3 text-center">K/D</div>
+      <div class="col-span-3 text-center">${this.isSoloScoring() ? 'SCORE' : 'K/D'}</div>
     `;
 
     tableContainer.appendChild(headerRow);
@@ -159,6 +197,9 @@ export class RealtimeLeaderboardManager {
 
     // assemble complete leaderboard
     container.appendChild(header);
+    if (teamRow) {
+      container.appendChild(teamRow);
+    }
     container.appendChild(tableContainer);
     container.appendChild(serverRow);
 
@@ -201,19 +242,47 @@ export class RealtimeLeaderboardManager {
     // add death indicator if applicable (without emoji)
     const statusIndicator = player.isDead ? ' [DEAD]' : '';
 
+    // add team color marker in team modes
+    const teamMarker = player.team
+      ? `<span class="inline-block w-2 h-2 rounded-full mr-2" style="background-color: ${getTeamCssColor(player.team)}"></span>`
+      : '';
+
     row.innerHTML = `
       <div class="col-span-5 text-left flex items-center">
         <span class="mr-2 text-chef-yellow font-bold">${rankText}</span>
+        ${teamMarker}
         <span class="truncate">${chefName}${statusIndicator}</span>
       </div>
       <div class="col-span-2 text-center font-bold text-chef-green">${player.kills}</div>
       <div class="col-span-2 text-center font-bold text-chef-red">${player.deaths}</div>
-      <div class="col-span-3 text-center font-bold text-chef-orange">${this.calculateKD(player.kills, player.deaths)}</div>
+      <div class="col-span-3 text-center font-bold text-chef-orange">${this.isSoloScoring() ? this.getPlayerScore(player) : this.calculateKD(player.kills, player.deaths)}</div>
     `;
 
     return row;
   }
 
+  /**
+   * creates the team score totals row, null outside team modes
+   */
+  private createTeamRow(): HTMLElement | null {
+    if (!this.mode || this.mode.teams.length === 0) return null;
+
+    const teamRow = document.createElement('div');
+    teamRow.className = 'grid grid-cols-2 gap-2 mb-4';
+
+    // modes with a score limit show how far each team is from winning
+    const scoreLimit = this.mode.scoreLimit ? ` / ${this.mode.scoreLimit}` : '';
+
+    teamRow.innerHTML = this.mode.teams.map(team => `
+      <div class="bg-gray-800/60 rounded-lg p-2 text-center font-game" style="border-bottom: 3px solid ${getTeamCssColor(team)}">
+        <div class="text-xs text-white/70">${getTeamName(team)}</div>
+        <div class="text-xl font-bold text-white">${this.mode?.teamScores[team] ?? 0}${scoreLimit}</div>
+      </div>
+    `).join('');
+
+    return teamRow;
+  }
+
   /**
    * creates the server information row
    */
@@ -229,6 +298,7 @@ export class RealtimeLeaderboardManager {
         <span class="text-chef-yellow">Server:</span>
         <span class="ml-2">${this.serverInfo.region}</span>
         <span class="ml-4 text-chef-green">${this.serverInfo.latency}ms</span>
+        <span class="ml-4">👀 ${formatSpectatorCount(this.serverInfo.spectators ?? 0)}</span>
       </div>
     `;
 
@@ -0,0 +1,142 @@
+/**
+ * royale.ts - renders the battle royale safe zone and the survivors HUD
+ * the server moves the circle and decides who is out, this module draws the zone from each update
+ */
+
+declare const PIXI: any;
+
+import type { RoyaleState, SafeZone } from './types.js';
+
+// the heat outside the circle and the circle outlines
+const HEAT_COLOR = 0xff5722;
+const ZONE_COLOR = 0xffffff;
+
+// how far the heat tint reaches past the circle, enough to cover any map
+const HEAT_EXTENT = 20000;
+
+// ===== ROYALE STATE =====
+
+let zoneGraphics: any = null;
+let hudElement: HTMLElement | null = null;
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Create the layer the zone is drawn in, just above the map tiles
+ */
+export function royale_layer_init(app: any): any {
+    const layer = new PIXI.Container();
+    app.stage.addChildAt(layer, Math.min(1, app.stage.children.length));
+    return layer;
+}
+
+/**
+ * Draw the zone and update the HUD, or remove both when the mode has no safe zone
+ */
+export function renderRoyale(layer: any, royale: RoyaleState | null): void {
+    if (!royale) {
+        clearRoyale(layer);
+        return;
+    }
+
+    if (!zoneGraphics) {
+        zoneGraphics = new PIXI.Graphics();
+        layer.addChild(zoneGraphics);
+    }
+    zoneGraphics.clear();
+    drawSafeZone(zoneGraphics, royale.zone);
+
+    updateHud(royale);
+}
+
+/**
+ * Draw a safe zone into a graphics object at the given scale
+ * Shared so a minimap can draw the same circles as the world view
+ */
+export function drawSafeZone(graphics: any, zone: SafeZone, scale: number = 1): void {
+    const x = zone.x * scale;
+    const y = zone.y * scale;
+    const radius = zone.radius * scale;
+    const extent = HEAT_EXTENT * scale;
+
+    // tint everything outside the circle
+    graphics.beginFill(HEAT_COLOR, 0.18);
+    graphics.drawRect(x - extent, y - extent, extent * 2, extent * 2);
+    if (radius > 0) {
+        graphics.beginHole();
+        graphics.drawCircle(x, y, radius);
+        graphics.endHole();
+    }
+    graphics.endFill();
+
+    if (radius > 0) {
+        graphics.lineStyle({ width: Math.max(1, 6 * scale), color: ZONE_COLOR, alpha: 0.9 });
+        graphics.drawCircle(x, y, radius);
+    }
+
+    // faint outline of where the circle is heading next
+    if (zone.targetRadius > 0 && zone.targetRadius < zone.radius) {
+        graphics.lineStyle({ width: Math.max(1, 3 * scale), color: ZONE_COLOR, alpha: 0.35 });
+        graphics.drawCircle(zone.targetX * scale, zone.targetY * scale, zone.targetRadius * scale);
+    }
+    graphics.lineStyle(0);
+}
+
+/**
+ * Remove the zone and hide the HUD (for mode changes)
+ */
+export function clearRoyale(layer: any): void {
+    if (zoneGraphics) {
+        layer.removeChild(zoneGraphics);
+        zoneGraphics.destroy();
+        zoneGraphics = null;
+    }
+    if (hudElement) {
+        hudElement.style.display = 'none';
+    }
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Create the survivors HUD element at the top of the screen
+ */
+function createHud(): HTMLElement {
+    const hud = document.createElement('div');
+    hud.id = 'royale-hud';
+    hud.className = 'fixed top-4 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none bg-gray-900/80 border border-gray-700 rounded-xl px-4 py-2 w-72 text-center font-game';
+    hud.innerHTML = `
+      <div id="royale-hud-alive" class="text-sm text-white"></div>
+      <div id="royale-hud-zone" class="text-xs text-gray-300"></div>
+    `;
+    document.body.appendChild(hud);
+    return hud;
+}
+
+/**
+ * Show how many chefs are left and what the zone is doing
+ */
+function updateHud(royale: RoyaleState): void {
+    if (!hudElement) {
+        hudElement = createHud();
+    }
+    hudElement.style.display = 'block';
+
+    const alive = hudElement.querySelector('#royale-hud-alive') as HTMLElement;
+    const zone = hudElement.querySelector('#royale-hud-zone') as HTMLElement;
+
+    const survivors = Object.keys(royale.participants).length - royale.eliminated.length;
+    alive.textContent = `👨‍🍳 ${survivors} chef${survivors === 1 ? '' : 's'} left`;
+
+    let zoneText = 'Waiting for chefs to join';
+    if (royale.zone.phaseEndsAt === null && royale.zone.phase > 0) {
+        zoneText = 'The kitchen is fully closed!';
+    } else if (royale.zone.shrinking) {
+        zoneText = 'The heat is closing in!';
+    } else if (royale.zone.damagePerSecond > 0) {
+        zoneText = `Safe zone holding - ${royale.zone.damagePerSecond} dmg/s outside`;
+    } else if (royale.zone.phaseEndsAt !== null) {
+        zoneText = 'The safe zone will close soon';
+    }
+    zone.textContent = zoneText;
+}
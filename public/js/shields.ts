@@ -0,0 +1,97 @@
+/**
+ * shields.ts - renders the spawn protection shield around freshly spawned chefs
+ * the server decides who is protected, this module keeps a pulsing ring on each of them
+ */
+
+declare const PIXI: any;
+
+// the ring sits just outside a chef's sprite
+const SHIELD_RADIUS = 55;
+const SHIELD_COLOR = 0x74c0fc;
+
+// one full fade in and out of the ring
+const PULSE_MS = 1000;
+
+// ===== SHIELD STATE =====
+
+let shieldSprites: Record<string, any> = {};
+let shieldedIds = new Set<string>();
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Create the layer shields are drawn in, above the map objectives and below the chefs
+ */
+export function shield_layer_init(app: any): any {
+    const layer = new PIXI.Container();
+    app.stage.addChildAt(layer, Math.min(5, app.stage.children.length));
+    return layer;
+}
+
+/**
+ * Mark whether a player is spawn protected (from every player update)
+ */
+export function setShielded(playerId: string, shielded: boolean): void {
+    if (shielded) {
+        shieldedIds.add(playerId);
+    } else {
+        shieldedIds.delete(playerId);
+    }
+}
+
+/**
+ * Move shields to their players' current positions and pulse them (called every frame)
+ * Shields whose player is not visible are hidden, shields that ran out are removed
+ */
+export function positionShields(layer: any, getPlayerPosition: (playerId: string) => { x: number; y: number } | null): void {
+    for (const playerId of Object.keys(shieldSprites)) {
+        if (!shieldedIds.has(playerId)) {
+            layer.removeChild(shieldSprites[playerId]);
+            shieldSprites[playerId].destroy();
+            delete shieldSprites[playerId];
+        }
+    }
+
+    const pulse = 0.55 + 0.25 * Math.sin((Date.now() / PULSE_MS) * Math.PI * 2);
+    for (const playerId of shieldedIds) {
+        if (!shieldSprites[playerId]) {
+            shieldSprites[playerId] = createShieldGraphics();
+            layer.addChild(shieldSprites[playerId]);
+        }
+
+        const shield = shieldSprites[playerId];
+        const position = getPlayerPosition(playerId);
+        shield.visible = position !== null;
+        if (position) {
+            shield.x = position.x;
+            shield.y = position.y;
+            shield.alpha = pulse;
+        }
+    }
+}
+
+/**
+ * Remove every shield (for map changes)
+ */
+export function clearShields(layer: any): void {
+    for (const shield of Object.values(shieldSprites)) {
+        layer.removeChild(shield);
+        shield.destroy();
+    }
+    shieldSprites = {};
+    shieldedIds = new Set();
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Create the ring drawn around a protected chef
+ */
+function createShieldGraphics(): any {
+    const graphics = new PIXI.Graphics();
+    graphics.lineStyle({ width: 4, color: SHIELD_COLOR, alpha: 1 });
+    graphics.beginFill(SHIELD_COLOR, 0.15);
+    graphics.drawCircle(0, 0, SHIELD_RADIUS);
+    graphics.endFill();
+    return graphics;
+}
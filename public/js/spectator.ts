@@ -0,0 +1,166 @@
+/**
+ * spectator.ts - follow and free cameras for players watching instead of playing
+ * used when a battle royale chef is out, or when a player chooses to spectate from the menu or death screen
+ */
+
+// how fast the free camera flies, in world pixels per second (doubled with shift)
+const FREE_CAMERA_SPEED = 900;
+
+// ===== SPECTATOR STATE =====
+
+let spectating = false;
+let byChoice = false;
+let freeCamera: { x: number; y: number } | null = null;
+let targetId: string | null = null;
+let spectatorCount = 0;
+let bannerElement: HTMLElement | null = null;
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Start following other players and show why the player is watching
+ * chosen marks players who asked to spectate, they join again themselves instead of at the next round
+ */
+export function startSpectating(reason: string, chosen: boolean = false): void {
+    spectating = true;
+    byChoice = chosen;
+    freeCamera = null;
+    targetId = null;
+
+    if (!bannerElement) {
+        bannerElement = createBanner();
+    }
+    const reasonText = bannerElement.querySelector('#spectator-reason') as HTMLElement;
+    reasonText.textContent = reason;
+    const joinHint = bannerElement.querySelector('#spectator-join-hint') as HTMLElement;
+    joinHint.style.display = byChoice ? 'block' : 'none';
+    updateControlsHint();
+    bannerElement.style.display = 'block';
+}
+
+/**
+ * Stop watching and hide the banner (on spawn or when the round ends)
+ */
+export function stopSpectating(): void {
+    spectating = false;
+    byChoice = false;
+    freeCamera = null;
+    targetId = null;
+    if (bannerElement) {
+        bannerElement.style.display = 'none';
+    }
+}
+
+/**
+ * Check if the camera is following another player or flying free
+ */
+export function isSpectating(): boolean {
+    return spectating;
+}
+
+/**
+ * Check if the player chose to spectate (rather than being knocked out of the round)
+ */
+export function isSpectatingByChoice(): boolean {
+    return spectating && byChoice;
+}
+
+/**
+ * Get the sprite the camera should follow, switching to another when the current one is gone
+ */
+export function getSpectateTarget(sprites: Record<string, any>): any | null {
+    if (!targetId || !sprites[targetId]) {
+        targetId = Object.keys(sprites)[0] ?? null;
+    }
+    return targetId ? sprites[targetId] : null;
+}
+
+/**
+ * Switch the camera to the next player, leaving the free camera
+ */
+export function cycleSpectateTarget(sprites: Record<string, any>): void {
+    const ids = Object.keys(sprites);
+    if (ids.length === 0) return;
+
+    freeCamera = null;
+    const index = targetId ? ids.indexOf(targetId) : -1;
+    targetId = ids[(index + 1) % ids.length];
+    updateControlsHint();
+}
+
+/**
+ * Switch between following a player and flying the free camera
+ * the free camera starts where the camera currently is
+ */
+export function toggleFreeCamera(position: { x: number; y: number }): void {
+    freeCamera = freeCamera ? null : { x: position.x, y: position.y };
+    updateControlsHint();
+}
+
+/**
+ * Get where the camera should look this frame, flying the free camera with WASD
+ * returns null when there is nobody to follow
+ */
+export function getSpectatorCamera(
+    sprites: Record<string, any>,
+    keys: { w: boolean; a: boolean; s: boolean; d: boolean; shift: boolean },
+    deltaMs: number
+): { x: number; y: number } | null {
+    if (!freeCamera) {
+        return getSpectateTarget(sprites);
+    }
+
+    const distance = FREE_CAMERA_SPEED * (keys.shift ? 2 : 1) * deltaMs / 1000;
+    freeCamera.x += ((keys.d ? 1 : 0) - (keys.a ? 1 : 0)) * distance;
+    freeCamera.y += ((keys.s ? 1 : 0) - (keys.w ? 1 : 0)) * distance;
+    return freeCamera;
+}
+
+/**
+ * Show how many people are watching the room
+ */
+export function setSpectatorCount(count: number): void {
+    spectatorCount = count;
+    if (bannerElement) {
+        const countText = bannerElement.querySelector('#spectator-count') as HTMLElement;
+        countText.textContent = formatSpectatorCount(count);
+    }
+}
+
+/**
+ * Describe a spectator count, e.g. "3 watching"
+ */
+export function formatSpectatorCount(count: number): string {
+    return `${count} watching`;
+}
+
+// ===== PRIVATE FUNCTIONS =====
+
+/**
+ * Create the spectating banner at the bottom of the screen
+ */
+function createBanner(): HTMLElement {
+    const banner = document.createElement('div');
+    banner.id = 'spectator-banner';
+    banner.className = 'fixed bottom-8 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none bg-gray-900/80 border border-gray-700 rounded-xl px-4 py-2 text-center font-game';
+    banner.innerHTML = `
+      <div class="text-sm text-white">👀 Spectating <span id="spectator-count" class="text-xs text-gray-400">${formatSpectatorCount(spectatorCount)}</span></div>
+      <div id="spectator-reason" class="text-xs text-gray-300"></div>
+      <div id="spectator-controls" class="text-xs text-gray-400"></div>
+      <div id="spectator-join-hint" class="text-xs text-chef-yellow">Press Space to start cooking</div>
+    `;
+    document.body.appendChild(banner);
+    return banner;
+}
+
+/**
+ * Show the controls for the current camera
+ */
+function updateControlsHint(): void {
+    if (!bannerElement) return;
+
+    const controls = bannerElement.querySelector('#spectator-controls') as HTMLElement;
+    controls.textContent = freeCamera
+        ? 'WASD to fly · Shift to speed up · Click to follow a chef · F to stop flying'
+        : 'Click to watch another chef · F for free camera';
+}
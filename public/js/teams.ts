@@ -0,0 +1,47 @@
+/**
+ * teams.ts - team names and colors for team game modes
+ * shared by sprite tinting, the in-game leaderboard and the game-ended screen
+ */
+
+import { getModeConfig } from './constants-loader.js';
+
+// Load mode configuration from backend
+const modeConfig = await getModeConfig();
+const MODE_CONFIG = modeConfig || {
+    TEAMS: ['red', 'blue'],
+    TEAM_NAMES: { red: 'Red Kitchen', blue: 'Blue Kitchen' },
+    TEAM_COLORS: { red: 0xff6b6b, blue: 0x4dabf7 },
+};
+
+// untinted sprites keep their original colors
+const NO_TINT = 0xffffff;
+
+// ===== PUBLIC INTERFACE =====
+
+/**
+ * Get the sprite tint for a team, players without a team are not tinted
+ */
+export function getTeamTint(team: string | null | undefined): number {
+    return (team && MODE_CONFIG.TEAM_COLORS[team]) ?? NO_TINT;
+}
+
+/**
+ * Get the CSS color for a team (for HTML overlays)
+ */
+export function getTeamCssColor(team: string): string {
+    return `#${getTeamTint(team).toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Check if an id names a team (objective holders are team ids or socket ids)
+ */
+export function isTeam(id: string): boolean {
+    return MODE_CONFIG.TEAMS.includes(id);
+}
+
+/**
+ * Get the display name for a team
+ */
+export function getTeamName(team: string): string {
+    return MODE_CONFIG.TEAM_NAMES[team] ?? team;
+}
@@ -16,6 +16,9 @@ export interface PlayerStats {
   shotsHit: number;
   timeAlive: number; // in seconds
   gamesPlayed: number;
+  longestStreak: number; // most kills in a single life
+  assists: number; // kills this player helped with without landing the final hit
+  shutdowns: number; // kills that ended a streak of at least SHUTDOWN_STREAK
 }
 
 /**
@@ -26,6 +29,17 @@ export interface DeathInfo {
   killedByWeapon: string;
   timeAlive: number;
   finalStats: PlayerStats;
+  damageTaken: DamageTaken[]; // who hurt the player this life, most damage first
+}
+
+/**
+ * damage one attacker dealt to a player during one life
+ */
+export interface DamageTaken {
+  attackerId: string;
+  attackerName: string;
+  damage: number;
+  lastHitTime: number;
 }
 
 // ===== WALL TYPES =====
@@ -41,8 +55,96 @@ export interface WallData {
   height: number;
 }
 
+// ===== MAP TYPES =====
+
+/**
+ * tileset used to draw a map (matches server-side TilesetData)
+ */
+export interface TilesetData {
+  firstGid: number;
+  image: string | null;
+  tileWidth: number;
+  tileHeight: number;
+  tileCount: number;
+  columns: number;
+}
+
+/**
+ * spawn point or zone from the map (matches server-side SpawnPoint)
+ */
+export interface SpawnPoint {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  team: string | null;
+  weight: number;
+}
+
+/**
+ * pickup point from the map (matches server-side PickupSpawn)
+ */
+export interface PickupSpawn {
+  id: string;
+  x: number;
+  y: number;
+  kind: 'health' | 'ammo' | 'weapon' | 'armor';
+  item: string | null;
+}
+
+/**
+ * team base from a map's flag layer (center, world coordinates)
+ */
+export interface FlagBase {
+  team: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * rectangular king of the hill zone from the map (top-left, world coordinates)
+ */
+export interface HillZone {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * map served by the map API (matches server-side MapData)
+ */
+export interface MapData {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  scale: number;
+  layers: number[][][];
+  tilesets: TilesetData[];
+  walls: Record<string, WallData>;
+  spawnPoints: SpawnPoint[];
+  pickupSpawns: PickupSpawn[];
+  flagBases: FlagBase[];
+  hillZones: HillZone[];
+}
+
 // ===== PLAYER TYPES =====
 
+/**
+ * ammo of one carried weapon as confirmed by the server (matches server-side AmmoState)
+ */
+export interface AmmoState {
+  magazine: number;
+  reserve: number;
+  isReloading: boolean;
+  reloadStartTime: number;
+}
+
 /**
  * player data structure for client-side use
  */
@@ -53,6 +155,48 @@ export interface PlayerData {
   y: number;
   rotation: number;
   health: number;
+  team?: string | null; // team in team modes, null in free-for-all
+  carryingFlag?: string | null; // team whose recipe book this player carries
+  spawnProtected?: boolean; // shielded from bullets just after spawning
+  armor?: number; // takes a share of incoming damage in modes with armor
+  weaponId?: string; // equipped weapon
+  weapons?: Record<string, AmmoState>; // carried weapons in slot order
+  lastProcessedInput?: number; // sequence of the last input the server applied
+}
+
+/**
+ * input sent to the server once per simulation tick (matches server-side ClientPlayerInput)
+ */
+export interface PlayerInput {
+  id: string;
+  username: string;
+  sequence: number;
+  viewTime: number; // server time of the enemies being rendered, lets the server rewind hits
+  rotation: number;
+  mb1: boolean;
+  reload: boolean;
+  weaponSwitch?: string; // id of a carried weapon to equip
+  keyboard: {
+    w: boolean;
+    a: boolean;
+    s: boolean;
+    d: boolean;
+    shift: boolean;
+  };
+}
+
+// ===== WEAPON TYPES =====
+
+/**
+ * weapon registry entry, the fields of the server-side WeaponDefinition the client uses
+ */
+export interface WeaponDefinition {
+  NAME: string;
+  COOLDOWN_MS: number;
+  MAGAZINE_SIZE: number;
+  STARTING_RESERVE: number;
+  RELOAD_TIME_MS: number;
+  PROJECTILE_SPRITE: string;
 }
 
 // ===== BULLET TYPES =====
@@ -69,6 +213,126 @@ export interface BulletData {
   width: number;
   height: number;
   rotation: number;
+  weaponId: string; // weapon that fired this projectile, picks the sprite
+}
+
+// ===== GAME MODE TYPES =====
+
+/**
+ * current mode and team scores (matches server-side GameModeSummary)
+ */
+export interface GameModeSummary {
+  modeId: string;
+  name: string;
+  teams: string[]; // team ids, empty without teams
+  teamScores: Record<string, number>;
+  playerScores: Record<string, number>; // objective score per socket id in modes without teams
+  scoreLimit: number | null; // score that wins the round early
+  winner: string | null; // set by modes that name a single winner (last chef standing)
+}
+
+// ===== MATCH TYPES =====
+
+/**
+ * phases a room's match moves through (matches server-side MatchPhase)
+ */
+export type MatchPhase = 'warmup' | 'countdown' | 'live' | 'round_end' | 'intermission';
+
+/**
+ * match phase and round scores (matches server-side MatchSummary)
+ */
+export interface MatchSummary {
+  phase: MatchPhase;
+  remainingMs: number | null; // time left in the current phase, null while warming up
+  round: number;
+  totalRounds: number;
+  winsNeeded: number;
+  playersNeeded: number;
+  roundWins: Array<{ side: string; name: string; wins: number }>;
+  roundWinner: string | null; // name of the last round's winner, null for a draw
+}
+
+// ===== KING OF THE HILL TYPES =====
+
+/**
+ * the contested zone and who holds it (matches server-side HillState)
+ * holder and capturing ids are team ids in team modes, otherwise socket ids
+ */
+export interface HillState extends HillZone {
+  holderId: string | null;
+  holderName: string | null;
+  capturingId: string | null;
+  capturingName: string | null;
+  captureMs: number;
+  progress: number; // 0-1
+  contested: boolean;
+  nextPointAt: number;
+  updatedAt: number;
+}
+
+// ===== BATTLE ROYALE TYPES =====
+
+/**
+ * the shrinking safe circle (matches server-side SafeZone)
+ */
+export interface SafeZone {
+  x: number;
+  y: number;
+  radius: number;
+  startX: number;
+  startY: number;
+  startRadius: number;
+  targetX: number;
+  targetY: number;
+  targetRadius: number;
+  phase: number;
+  shrinking: boolean;
+  phaseEndsAt: number | null;
+  damagePerSecond: number;
+}
+
+/**
+ * battle royale round state (matches server-side RoyaleState)
+ */
+export interface RoyaleState {
+  zone: SafeZone;
+  participants: Record<string, string>; // username per player id
+  eliminated: string[];
+}
+
+// ===== CAPTURE THE FLAG TYPES =====
+
+/**
+ * a team's recipe book (matches server-side FlagData)
+ */
+export interface FlagData {
+  team: string;
+  baseX: number;
+  baseY: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  carrierId: string | null;
+  droppedAt: number | null;
+}
+
+// ===== PICKUP TYPES =====
+
+/**
+ * pickup lying in the world (matches server-side PickupData)
+ */
+export interface PickupData {
+  id: string;
+  kind: 'health' | 'ammo' | 'weapon' | 'armor';
+  item: string | null; // health item id or weapon id
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  active: boolean;
+  respawnAt: number;
+  expiresAt: number | null;
 }
 
 // ===== UTILITY TYPES =====
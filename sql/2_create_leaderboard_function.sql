@@ -1,5 +1,15 @@
 -- Step 2: Create Leaderboard Function
 
+-- Stat columns read here and by get_user_stats_aggregate in step 3 (safe to re-run)
+-- Most kills in a single life during the game
+ALTER TABLE game_results ADD COLUMN IF NOT EXISTS longest_streak INTEGER NOT NULL DEFAULT 0;
+
+-- Kills the player helped with without landing the final hit
+ALTER TABLE game_results ADD COLUMN IF NOT EXISTS assists INTEGER NOT NULL DEFAULT 0;
+
+-- Kills that ended another player's streak
+ALTER TABLE game_results ADD COLUMN IF NOT EXISTS shutdowns INTEGER NOT NULL DEFAULT 0;
+
 CREATE OR REPLACE FUNCTION get_leaderboard(
     p_metric TEXT DEFAULT 'kills',
     p_limit INTEGER DEFAULT 10
@@ -17,6 +27,8 @@ RETURNS TABLE(
     avg_kdr NUMERIC,
     avg_accuracy NUMERIC,
     best_game_kills INTEGER,
+    best_streak INTEGER,
+    total_assists BIGINT,
     last_played TIMESTAMPTZ
 ) AS $$
 BEGIN
@@ -41,6 +53,8 @@ BEGIN
                 ELSE ROUND((COALESCE(SUM(gr.shots_hit), 0)::NUMERIC / COALESCE(SUM(gr.shots_fired), 1)::NUMERIC) * 100, 2)
             END as avg_accuracy,
             COALESCE(MAX(gr.kills), 0) as best_game_kills,
+            COALESCE(MAX(gr.longest_streak), 0) as best_streak,
+            COALESCE(SUM(gr.assists), 0) as total_assists,
             MAX(gr.created_at) as last_played
         FROM users u
         LEFT JOIN game_results gr ON u.google_user_id = gr.google_user_id
@@ -61,12 +75,15 @@ BEGIN
         us.avg_kdr,
         us.avg_accuracy,
         us.best_game_kills,
+        us.best_streak,
+        us.total_assists,
         us.last_played
     FROM user_stats us
     ORDER BY 
         CASE 
             WHEN p_metric = 'kills' THEN us.total_kills
             WHEN p_metric = 'time_alive' THEN us.total_time_alive
+            WHEN p_metric = 'assists' THEN us.total_assists
             ELSE us.total_kills
         END DESC,
         CASE 
@@ -16,6 +16,8 @@ RETURNS TABLE(
     avg_kdr NUMERIC,
     avg_accuracy NUMERIC,
     best_game_kills INTEGER,
+    best_streak INTEGER,
+    total_assists BIGINT,
     last_played TIMESTAMPTZ
 ) AS $$
 BEGIN
@@ -39,6 +41,8 @@ BEGIN
             ELSE ROUND((COALESCE(SUM(gr.shots_hit), 0)::NUMERIC / COALESCE(SUM(gr.shots_fired), 1)::NUMERIC) * 100, 2)
         END as avg_accuracy,
         COALESCE(MAX(gr.kills), 0) as best_game_kills,
+        COALESCE(MAX(gr.longest_streak), 0) as best_streak,
+        COALESCE(SUM(gr.assists), 0) as total_assists,
         MAX(gr.created_at) as last_played
     FROM users u
     LEFT JOIN game_results gr ON u.google_user_id = gr.google_user_id
@@ -0,0 +1,21 @@
+-- Step 5: Create Achievement Tables (safe to re-run)
+
+-- Achievement catalogue, kept in sync with ACHIEVEMENT_REGISTRY by the server on startup
+CREATE TABLE IF NOT EXISTS achievements (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    icon TEXT NOT NULL
+);
+
+-- Achievements unlocked by signed in players, each unlocked at most once
+CREATE TABLE IF NOT EXISTS user_achievements (
+    id BIGSERIAL PRIMARY KEY,
+    google_user_id VARCHAR NOT NULL REFERENCES users(google_user_id) ON DELETE CASCADE,
+    achievement_id TEXT NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+    room_id VARCHAR NOT NULL,
+    unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (google_user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_achievements_google_user_id_idx ON user_achievements (google_user_id);
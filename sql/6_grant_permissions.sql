@@ -0,0 +1,11 @@
+-- Step 6: Grant Permissions
+
+GRANT EXECUTE ON FUNCTION get_leaderboard TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_user_stats_aggregate TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_top_performers TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_recent_activity TO anon, authenticated; 
+
+-- The server reads and writes achievements with the anon key
+GRANT SELECT, INSERT, UPDATE ON TABLE achievements TO anon, authenticated;
+GRANT SELECT, INSERT ON TABLE user_achievements TO anon, authenticated;
+GRANT USAGE ON SEQUENCE user_achievements_id_seq TO anon, authenticated;
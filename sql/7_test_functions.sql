@@ -1,4 +1,4 @@
--- Step 6: Test Functions (Optional)
+-- Step 7: Test Functions (Optional)
 
 -- Test leaderboard function
 SELECT * FROM get_leaderboard('kills', 5);
@@ -0,0 +1,205 @@
+/**
+ * achievements.ts - achievement unlock rules and per-session unlock tracking
+ * the catalogue lives in ACHIEVEMENT_REGISTRY, rules are checked on kills and at the end of each round
+ * signed in players keep their unlocks in Supabase, guests only for as long as their socket is connected
+ */
+
+import { ACHIEVEMENT_REGISTRY } from "../constants.js";
+import { isBot } from "./bots.js";
+import { isLive } from "./match.js";
+import { getSide } from "./teams.js";
+import { getUserAchievements, saveAchievementUnlock } from "../services/supabase.js";
+import { getUserInfo } from "../services/user-session.js";
+
+// Type imports
+import type {
+  AchievementDefinition,
+  AchievementState,
+  AchievementUnlock,
+  GameState,
+  PlayerStats,
+  ServerPlayer,
+  UserInfo
+} from "../types/game.js";
+
+type AchievementEvent = "kill" | "round_end";
+
+// achievement ids each connected socket has unlocked, with the room each was unlocked in
+// (loaded from Supabase for signed in players)
+const sessionUnlocks = new Map<string, Map<string, string>>();
+
+// ===== CATALOGUE =====
+
+/**
+ * creates a room's achievement state, before any round has started
+ */
+export function createAchievementState(): AchievementState {
+  return { firstBloodTaken: false, unbroken: {}, unlocks: [] };
+}
+
+/**
+ * gets every achievement in the catalogue
+ */
+export function getAchievementCatalogue(): AchievementDefinition[] {
+  return Object.keys(ACHIEVEMENT_REGISTRY).map(getAchievement);
+}
+
+/**
+ * gets an achievement as clients see it
+ */
+function getAchievement(achievementId: string): AchievementDefinition {
+  const entry = ACHIEVEMENT_REGISTRY[achievementId as keyof typeof ACHIEVEMENT_REGISTRY];
+  return { id: achievementId, name: entry.NAME, description: entry.DESCRIPTION, icon: entry.ICON };
+}
+
+/**
+ * gets the achievements on an event whose requirements are all met by the given stats
+ */
+function getEarnedAchievements(event: AchievementEvent, stats: Record<string, number>): string[] {
+  return Object.entries(ACHIEVEMENT_REGISTRY)
+    .filter(([, entry]) => entry.EVENT === event)
+    .filter(([, entry]) => Object.entries(entry.REQUIRES).every(([stat, minimum]) => (stats[stat] ?? 0) >= minimum))
+    .map(([achievementId]) => achievementId);
+}
+
+// ===== ROUND TRACKING =====
+
+/**
+ * starts tracking a new round: first blood is up for grabs and everyone alive is unbroken
+ */
+export function startAchievementRound(game: GameState): void {
+  game.achievements.firstBloodTaken = false;
+  game.achievements.unbroken = {};
+  for (const player of Object.values(game.players)) {
+    if (player.health > 0) {
+      game.achievements.unbroken[player.id] = true;
+    }
+  }
+}
+
+/**
+ * checks the kill achievements after a credited kill
+ */
+export function checkKillAchievements(game: GameState, killer: ServerPlayer, roomId: string): void {
+  if (!isLive(game.match)) return;
+
+  const firstBlood = !game.achievements.firstBloodTaken;
+  game.achievements.firstBloodTaken = true;
+
+  const stats = {
+    streak: killer.killStreak,
+    multikill: killer.multiKill,
+    firstBlood: firstBlood ? 1 : 0,
+  };
+  for (const achievementId of getEarnedAchievements("kill", stats)) {
+    unlockAchievement(game, killer.id, achievementId, roomId);
+  }
+}
+
+/**
+ * a player who dies can no longer survive the round
+ */
+export function recordAchievementDeath(game: GameState, victim: ServerPlayer): void {
+  delete game.achievements.unbroken[victim.id];
+}
+
+/**
+ * checks the round end achievements for every player
+ * kills, damage, shots and accuracy are the player's totals for the match so far, not just this round
+ */
+export function checkRoundAchievements(
+  game: GameState,
+  roomId: string,
+  matchStats: Array<PlayerStats & { socketId: string }>
+): void {
+  const statsById = new Map(matchStats.map(stats => [stats.socketId, stats]));
+  for (const player of Object.values(game.players)) {
+    const stats = statsById.get(player.id);
+    if (!stats) continue;
+
+    const matchTotals = {
+      kills: stats.kills,
+      damageDealt: stats.damageDealt,
+      shotsFired: stats.shotsFired,
+      accuracy: stats.shotsFired === 0 ? 0 : (stats.shotsHit / stats.shotsFired) * 100,
+      survivedRound: player.health > 0 && game.achievements.unbroken[player.id] ? 1 : 0,
+      wonRound: game.match.roundWinner !== null && game.match.roundWinner === getSide(player) ? 1 : 0,
+    };
+    for (const achievementId of getEarnedAchievements("round_end", matchTotals)) {
+      unlockAchievement(game, player.id, achievementId, roomId);
+    }
+  }
+}
+
+// ===== UNLOCKING =====
+
+/**
+ * unlocks an achievement for a player unless they already have it this session
+ * signed in players also get it saved to their account
+ */
+function unlockAchievement(game: GameState, playerId: string, achievementId: string, roomId: string): void {
+  if (isBot(game, playerId)) return;
+
+  const unlocked = getSessionUnlocks(playerId);
+  if (unlocked.has(achievementId)) return;
+  unlocked.set(achievementId, roomId);
+
+  const achievement = getAchievement(achievementId);
+  game.achievements.unlocks.push({ playerId, achievement });
+  console.log(`🏅 ${game.players[playerId]?.username ?? playerId} unlocked ${achievement.name}`);
+
+  const userInfo = getUserInfo(playerId);
+  if (userInfo) {
+    saveAchievementUnlock(userInfo.id, achievementId, roomId).catch(error => {
+      console.error(`❌ Failed to save achievement ${achievementId} for ${playerId}:`, error);
+    });
+  }
+}
+
+/**
+ * takes the unlocks waiting to be sent to their players
+ */
+export function drainAchievementUnlocks(game: GameState): AchievementUnlock[] {
+  const unlocks = game.achievements.unlocks;
+  game.achievements.unlocks = [];
+  return unlocks;
+}
+
+// ===== SESSIONS =====
+
+/**
+ * gets the achievements a socket has unlocked and where, starting an empty map for new sockets
+ */
+function getSessionUnlocks(socketId: string): Map<string, string> {
+  let unlocked = sessionUnlocks.get(socketId);
+  if (!unlocked) {
+    unlocked = new Map();
+    sessionUnlocks.set(socketId, unlocked);
+  }
+  return unlocked;
+}
+
+/**
+ * loads a signed in player's saved achievements into their session
+ * anything they unlocked as a guest before signing in is saved to their account, with the room it was unlocked in
+ */
+export async function loadSessionAchievements(socketId: string, userInfo: UserInfo): Promise<void> {
+  const unlocked = getSessionUnlocks(socketId);
+  const saved = new Map((await getUserAchievements(userInfo.id)).map(unlock => [unlock.achievement_id, unlock.room_id]));
+
+  for (const [achievementId, roomId] of unlocked) {
+    if (!saved.has(achievementId)) {
+      await saveAchievementUnlock(userInfo.id, achievementId, roomId);
+    }
+  }
+  for (const [achievementId, roomId] of saved) {
+    unlocked.set(achievementId, roomId);
+  }
+}
+
+/**
+ * forgets a socket's unlocks when it disconnects, guests lose theirs
+ */
+export function clearSessionAchievements(socketId: string): void {
+  sessionUnlocks.delete(socketId);
+}
@@ -0,0 +1,75 @@
+/**
+ * ammo.ts - server-authoritative magazine, reserve and reload state
+ * the server decides whether a shot has ammo, clients only display what it confirms
+ */
+
+// Type imports
+import type { AmmoState, WeaponDefinition } from "../types/game.js";
+
+// ===== AMMO STATE =====
+
+/**
+ * creates a full magazine and reserve for a newly carried weapon
+ */
+export function createAmmoState(weapon: WeaponDefinition): AmmoState {
+  return {
+    magazine: weapon.MAGAZINE_SIZE,
+    reserve: weapon.STARTING_RESERVE,
+    isReloading: false,
+    reloadStartTime: 0,
+  };
+}
+
+// ===== FIRING =====
+
+/**
+ * takes one round from the magazine
+ * returns false if the magazine is empty or a reload is in progress
+ */
+export function consumeAmmo(ammo: AmmoState): boolean {
+  if (ammo.isReloading || ammo.magazine <= 0) return false;
+
+  ammo.magazine--;
+  return true;
+}
+
+// ===== RELOADING =====
+
+/**
+ * starts a reload if the magazine is not full and there is reserve ammo
+ * returns true if a reload was started
+ */
+export function startReload(ammo: AmmoState, weapon: WeaponDefinition, now: number): boolean {
+  if (ammo.isReloading || ammo.magazine >= weapon.MAGAZINE_SIZE || ammo.reserve <= 0) {
+    return false;
+  }
+
+  ammo.isReloading = true;
+  ammo.reloadStartTime = now;
+  return true;
+}
+
+/**
+ * finishes a reload once the weapon's reload time has passed, moving rounds from reserve into the magazine
+ * returns true on the tick the reload completes
+ */
+export function updateReload(ammo: AmmoState, weapon: WeaponDefinition, now: number): boolean {
+  if (!ammo.isReloading || now - ammo.reloadStartTime < weapon.RELOAD_TIME_MS) {
+    return false;
+  }
+
+  const roundsLoaded = Math.min(weapon.MAGAZINE_SIZE - ammo.magazine, ammo.reserve);
+  ammo.magazine += roundsLoaded;
+  ammo.reserve -= roundsLoaded;
+  ammo.isReloading = false;
+  ammo.reloadStartTime = 0;
+  return true;
+}
+
+/**
+ * abandons a reload in progress without loading any rounds (on weapon switch)
+ */
+export function cancelReload(ammo: AmmoState): void {
+  ammo.isReloading = false;
+  ammo.reloadStartTime = 0;
+}
@@ -0,0 +1,304 @@
+/**
+ * bots.ts - server-side bot chefs that keep rooms busy
+ * bots are ordinary players whose input is generated here each tick instead of arriving over a socket
+ */
+
+import crypto from "crypto";
+
+import { BOT_CONFIG, GAME_CONFIG } from "../constants.js";
+import { loadMap } from "./map-loader.js";
+import { findPath, getNavGrid } from "./navigation.js";
+import { hasLineOfSight } from "./spawn.js";
+import { queuePlayerInput } from "./simulation.js";
+import { areTeammates } from "./teams.js";
+import { getEquippedAmmo } from "./weapons.js";
+
+// Type imports
+import type { BotDifficulty, BotState, ClientPlayerInput, Coordinate, GameState, ServerPlayer } from "../types/game.js";
+
+type Keyboard = ClientPlayerInput["keyboard"];
+
+// input that changes nothing, used while a bot waits to respawn or has nowhere to go
+const NO_KEYS: Keyboard = { w: false, a: false, s: false, d: false, shift: false };
+
+// how far off a waypoint a bot may be on an axis before it presses that axis's key
+const STEERING_DEADZONE = 8;
+
+// ===== ROSTER =====
+
+/**
+ * checks if a player id belongs to a bot
+ */
+export function isBot(game: GameState, playerId: string): boolean {
+  return !!game.bots[playerId];
+}
+
+/**
+ * creates a bot with a name no other bot in the room is using
+ */
+function createBot(game: GameState, now: number): BotState {
+  const takenNames = new Set(Object.values(game.bots).map(bot => bot.username));
+  const name = BOT_CONFIG.NAMES.find(candidate => !takenNames.has(BOT_CONFIG.NAME_PREFIX + candidate))
+    ?? `Chef ${Object.keys(game.bots).length + 1}`;
+
+  return {
+    id: `${BOT_CONFIG.ID_PREFIX}${crypto.randomUUID()}`,
+    username: BOT_CONFIG.NAME_PREFIX + name,
+    difficulty: BOT_CONFIG.DIFFICULTY,
+    sequence: 0,
+    aimAngle: 0,
+    targetId: null,
+    canFireAt: now,
+    goal: null,
+    path: [],
+    nextPathAt: now,
+    strafeDirection: 1,
+    nextStrafeAt: now,
+    respawnAt: now,
+  };
+}
+
+/**
+ * adds or removes bots so the room has at least MIN_PLAYERS while any human is in it
+ * empty rooms keep no bots
+ * returns the ids of removed bots so their players can be cleaned up
+ */
+export function balanceBots(game: GameState, humanCount: number, now: number): string[] {
+  const wanted = humanCount === 0 ? 0 : Math.max(BOT_CONFIG.MIN_PLAYERS - humanCount, 0);
+  const botIds = Object.keys(game.bots);
+
+  for (let count = botIds.length; count < wanted; count++) {
+    const bot = createBot(game, now);
+    game.bots[bot.id] = bot;
+    console.log(`🤖 ${bot.username} joined the kitchen`);
+  }
+
+  // the most recently added bots leave first
+  const removed = botIds.slice(wanted).reverse();
+  for (const botId of removed) {
+    console.log(`🤖 ${game.bots[botId].username} left the kitchen`);
+    delete game.bots[botId];
+  }
+  return removed;
+}
+
+// ===== THINKING =====
+
+/**
+ * queues this tick's input for every bot, as if it had arrived from a client
+ */
+export function updateBots(game: GameState, now: number): void {
+  for (const bot of Object.values(game.bots)) {
+    const keyboard = { ...NO_KEYS };
+    const input = think(game, bot, keyboard, now);
+    if (!input) continue;
+
+    queuePlayerInput(game, {
+      id: bot.id,
+      username: bot.username,
+      sequence: ++bot.sequence,
+      rotation: input.rotation,
+      mb1: input.mb1,
+      reload: input.reload,
+      keyboard,
+    }, now);
+  }
+}
+
+/**
+ * decides where a bot moves, looks and shoots this tick
+ * dead bots send an empty input once their respawn delay is over, which spawns them
+ * returns null while the bot is waiting to respawn
+ */
+function think(
+  game: GameState,
+  bot: BotState,
+  keyboard: Keyboard,
+  now: number
+): { rotation: number; mb1: boolean; reload: boolean } | null {
+  const player = game.players[bot.id];
+  if (!player || player.health <= 0) {
+    if (bot.respawnAt === null) {
+      bot.respawnAt = now + BOT_CONFIG.RESPAWN_DELAY_MS;
+      bot.path = [];
+      bot.goal = null;
+    }
+    return now >= bot.respawnAt ? { rotation: getRotation(bot.aimAngle), mb1: false, reload: false } : null;
+  }
+  bot.respawnAt = null;
+
+  const difficulty = getDifficulty(bot);
+  const [x, y] = getCenter(player);
+  const target = findVisibleTarget(game, player);
+
+  // a newly spotted enemy has to be reacted to before the bot opens fire
+  if ((target?.id ?? null) !== bot.targetId) {
+    bot.targetId = target?.id ?? null;
+    bot.canFireAt = now + difficulty.REACTION_MS;
+  }
+
+  let mb1 = false;
+  if (target) {
+    const [targetX, targetY] = getCenter(target);
+    const aimError = turnTowards(bot, Math.atan2(targetY - y, targetX - x), difficulty);
+    mb1 = now >= bot.canFireAt && Math.abs(aimError) < BOT_CONFIG.FIRE_ANGLE;
+
+    // close in until within range, then strafe around the target
+    if (Math.hypot(targetX - x, targetY - y) > BOT_CONFIG.PREFERRED_RANGE) {
+      steer(keyboard, x, y, targetX, targetY);
+    } else {
+      strafe(bot, keyboard, x, y, targetX, targetY, now);
+    }
+    bot.path = [];
+  } else {
+    const waypoint = followPath(game, bot, player, x, y, now);
+    if (waypoint) {
+      steer(keyboard, x, y, waypoint[0], waypoint[1]);
+      turnTowards(bot, Math.atan2(waypoint[1] - y, waypoint[0] - x), difficulty);
+    }
+  }
+
+  // reload an empty magazine instead of dry firing
+  const ammo = getEquippedAmmo(player);
+  const reload = ammo.magazine === 0 && !ammo.isReloading;
+
+  // aim error is rolled every tick, so misses scatter around the target
+  const spread = (Math.random() - 0.5) * difficulty.AIM_SPREAD;
+  return { rotation: getRotation(bot.aimAngle + spread), mb1: mb1 && !reload, reload };
+}
+
+/**
+ * gets the bot's difficulty preset, unknown names fall back to the default
+ */
+function getDifficulty(bot: BotState): BotDifficulty {
+  const difficulties: Record<string, BotDifficulty> = BOT_CONFIG.DIFFICULTIES;
+  return difficulties[bot.difficulty] ?? difficulties[BOT_CONFIG.DIFFICULTY];
+}
+
+// ===== TARGETING =====
+
+/**
+ * gets the nearest living enemy the bot can see, skipping spawn protected ones it cannot hurt yet
+ */
+function findVisibleTarget(game: GameState, player: ServerPlayer): ServerPlayer | null {
+  const [x, y] = getCenter(player);
+  let nearest: ServerPlayer | null = null;
+  let nearestDistance: number = BOT_CONFIG.SIGHT_RANGE;
+
+  for (const other of Object.values(game.players)) {
+    if (other.id === player.id || other.health <= 0 || other.spawnProtected || areTeammates(player, other)) continue;
+
+    const [otherX, otherY] = getCenter(other);
+    const distance = Math.hypot(otherX - x, otherY - y);
+    if (distance < nearestDistance && hasLineOfSight(game, x, y, otherX, otherY)) {
+      nearest = other;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * turns the bot's aim towards an angle, no faster than its tracking speed
+ * returns how far the aim is still off, in radians
+ */
+function turnTowards(bot: BotState, angle: number, difficulty: BotDifficulty): number {
+  const error = normalizeAngle(angle - bot.aimAngle);
+  const maxTurn = difficulty.TRACKING_SPEED * GAME_CONFIG.PHYSICS_DELTA_TIME;
+  bot.aimAngle = normalizeAngle(bot.aimAngle + Math.max(-maxTurn, Math.min(maxTurn, error)));
+  return normalizeAngle(angle - bot.aimAngle);
+}
+
+// ===== MOVEMENT =====
+
+/**
+ * walks the bot towards the nearest enemy, or a random spawn point when there is nobody to hunt
+ * returns the waypoint to head for, null if the bot has nowhere to go
+ */
+function followPath(game: GameState, bot: BotState, player: ServerPlayer, x: number, y: number, now: number): Coordinate | null {
+  // drop waypoints that have been reached
+  while (bot.path.length > 0 && Math.hypot(bot.path[0][0] - x, bot.path[0][1] - y) < BOT_CONFIG.WAYPOINT_RADIUS) {
+    bot.path.shift();
+  }
+
+  if (now >= bot.nextPathAt || bot.path.length === 0) {
+    const map = loadMap(game.mapId);
+    const enemy = findNearestEnemy(game, player);
+    if (enemy) {
+      bot.goal = getCenter(enemy);
+    } else if (!bot.goal || bot.path.length === 0) {
+      const spawn = map.spawnPoints[Math.floor(Math.random() * map.spawnPoints.length)];
+      bot.goal = spawn ? [spawn.x + spawn.width / 2, spawn.y + spawn.height / 2] : null;
+    }
+
+    bot.path = bot.goal ? findPath(getNavGrid(map), x, y, bot.goal[0], bot.goal[1]) ?? [] : [];
+    bot.nextPathAt = now + BOT_CONFIG.PATH_REFRESH_MS;
+  }
+
+  return bot.path[0] ?? null;
+}
+
+/**
+ * gets the nearest living enemy anywhere on the map
+ */
+function findNearestEnemy(game: GameState, player: ServerPlayer): ServerPlayer | null {
+  let nearest: ServerPlayer | null = null;
+  let nearestDistance = Infinity;
+  for (const other of Object.values(game.players)) {
+    if (other.id === player.id || other.health <= 0 || areTeammates(player, other)) continue;
+
+    const distance = Math.hypot(other.x - player.x, other.y - player.y);
+    if (distance < nearestDistance) {
+      nearest = other;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * presses the keys that move from one point towards another
+ */
+function steer(keyboard: Keyboard, fromX: number, fromY: number, toX: number, toY: number): void {
+  keyboard.w = toY < fromY - STEERING_DEADZONE;
+  keyboard.s = toY > fromY + STEERING_DEADZONE;
+  keyboard.a = toX < fromX - STEERING_DEADZONE;
+  keyboard.d = toX > fromX + STEERING_DEADZONE;
+}
+
+/**
+ * moves sideways around a target, switching direction every so often
+ */
+function strafe(bot: BotState, keyboard: Keyboard, x: number, y: number, targetX: number, targetY: number, now: number): void {
+  if (now >= bot.nextStrafeAt) {
+    bot.strafeDirection = Math.random() < 0.5 ? 1 : -1;
+    bot.nextStrafeAt = now + BOT_CONFIG.STRAFE_SWITCH_MS;
+  }
+
+  // perpendicular to the line towards the target
+  const angle = Math.atan2(targetY - y, targetX - x) + (Math.PI / 2) * bot.strafeDirection;
+  steer(keyboard, x, y, x + Math.cos(angle) * 100, y + Math.sin(angle) * 100);
+}
+
+// ===== HELPERS =====
+
+/**
+ * gets the center of a player in world coordinates
+ */
+function getCenter(player: ServerPlayer): Coordinate {
+  return [player.x + GAME_CONFIG.PLAYER_SIZE / 2, player.y + GAME_CONFIG.PLAYER_SIZE / 2];
+}
+
+/**
+ * converts an aim angle into the rotation clients send (0 points up)
+ */
+function getRotation(aimAngle: number): number {
+  return aimAngle + Math.PI / 2;
+}
+
+/**
+ * wraps an angle into [-PI, PI]
+ */
+function normalizeAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,154 @@
+/**
+ * flags.ts - recipe books for capture the flag
+ * enemies steal a team's book from its base, teammates return it, and carrying it home scores
+ */
+
+import { FLAG_CONFIG, GAME_CONFIG } from "../constants.js";
+import { checkCollision } from "./physics.js";
+import { addTeamScore, getTeamName } from "./teams.js";
+
+// Type imports
+import type { FlagBase, FlagData, GameState, ServerPlayer } from "../types/game.js";
+
+// ===== FLAG CREATION =====
+
+/**
+ * creates one recipe book per team at its map base
+ */
+export function createFlags(bases: FlagBase[]): Record<string, FlagData> {
+  const flags: Record<string, FlagData> = {};
+  for (const base of bases) {
+    // a map may place several bases per team, the first one is used
+    if (flags[base.team]) continue;
+
+    flags[base.team] = {
+      team: base.team,
+      baseX: base.x,
+      baseY: base.y,
+      x: 0,
+      y: 0,
+      width: FLAG_CONFIG.SIZE,
+      height: FLAG_CONFIG.SIZE,
+      carrierId: null,
+      droppedAt: null,
+    };
+    returnFlag(flags[base.team]);
+  }
+  return flags;
+}
+
+// ===== FLAG STATE =====
+
+/**
+ * checks if a recipe book is sitting at its base
+ */
+function isFlagAtBase(flag: FlagData): boolean {
+  return flag.carrierId === null && flag.droppedAt === null;
+}
+
+/**
+ * moves a recipe book's box to be centered on the given point
+ */
+function placeFlag(flag: FlagData, x: number, y: number): void {
+  flag.x = x - flag.width / 2;
+  flag.y = y - flag.height / 2;
+}
+
+/**
+ * sends a recipe book back to its base
+ */
+function returnFlag(flag: FlagData): void {
+  flag.carrierId = null;
+  flag.droppedAt = null;
+  placeFlag(flag, flag.baseX, flag.baseY);
+}
+
+/**
+ * gets the area a carrier must reach around a base to capture
+ */
+function getBaseBounds(flag: FlagData) {
+  return {
+    x: flag.baseX - FLAG_CONFIG.BASE_SIZE / 2,
+    y: flag.baseY - FLAG_CONFIG.BASE_SIZE / 2,
+    width: FLAG_CONFIG.BASE_SIZE,
+    height: FLAG_CONFIG.BASE_SIZE,
+  };
+}
+
+/**
+ * drops the recipe book a player is carrying where they stand (on death or disconnect)
+ * returns the announcement, or null if they were not carrying one
+ */
+export function dropFlag(game: GameState, player: ServerPlayer, now: number): string | null {
+  const flag = player.carryingFlag ? game.flags[player.carryingFlag] : undefined;
+  player.carryingFlag = null;
+  if (!flag || flag.carrierId !== player.id) return null;
+
+  flag.carrierId = null;
+  flag.droppedAt = now;
+  placeFlag(flag, player.x + GAME_CONFIG.PLAYER_SIZE / 2, player.y + GAME_CONFIG.PLAYER_SIZE / 2);
+  return `${player.username} dropped the ${getTeamName(flag.team)} recipe`;
+}
+
+// ===== FLAG RULES =====
+
+/**
+ * moves carried recipe books with their carriers, returns abandoned ones,
+ * and applies steal, return and capture rules for every living team player
+ * returns announcements for the room
+ */
+export function updateFlags(game: GameState, now: number): string[] {
+  const announcements: string[] = [];
+  const flags = Object.values(game.flags);
+
+  for (const flag of flags) {
+    if (flag.carrierId !== null) {
+      const carrier = game.players[flag.carrierId];
+      if (carrier && carrier.health > 0) {
+        placeFlag(flag, carrier.x + GAME_CONFIG.PLAYER_SIZE / 2, carrier.y + GAME_CONFIG.PLAYER_SIZE / 2);
+      } else {
+        // carrier left without going through dropFlag, leave the book where it was last seen
+        flag.carrierId = null;
+        flag.droppedAt = now;
+        announcements.push(`The ${getTeamName(flag.team)} recipe was dropped`);
+      }
+    } else if (flag.droppedAt !== null && now - flag.droppedAt >= FLAG_CONFIG.RETURN_MS) {
+      returnFlag(flag);
+      announcements.push(`The ${getTeamName(flag.team)} recipe was returned`);
+    }
+  }
+
+  for (const player of Object.values(game.players)) {
+    if (player.health <= 0 || !player.team) continue;
+    const bounds = { x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE };
+
+    for (const flag of flags) {
+      if (flag.carrierId !== null || !checkCollision(flag, bounds)) continue;
+
+      if (flag.team === player.team) {
+        // touching your own dropped book sends it home
+        if (!isFlagAtBase(flag)) {
+          returnFlag(flag);
+          announcements.push(`${player.username} returned the ${getTeamName(flag.team)} recipe`);
+        }
+      } else if (!player.carryingFlag) {
+        flag.carrierId = player.id;
+        flag.droppedAt = null;
+        player.carryingFlag = flag.team;
+        announcements.push(`${player.username} stole the ${getTeamName(flag.team)} recipe!`);
+      }
+    }
+
+    // carrying the enemy book into your base scores, but only while your own book is home
+    const homeFlag = game.flags[player.team];
+    if (player.carryingFlag && homeFlag && isFlagAtBase(homeFlag) && checkCollision(getBaseBounds(homeFlag), bounds)) {
+      const stolenFlag = game.flags[player.carryingFlag];
+      returnFlag(stolenFlag);
+      player.carryingFlag = null;
+      addTeamScore(game, player.team);
+      announcements.push(`${player.username} captured the ${getTeamName(stolenFlag.team)} recipe!`);
+    }
+  }
+
+  return announcements;
+}
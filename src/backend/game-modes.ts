@@ -0,0 +1,129 @@
+/**
+ * game-modes.ts - game mode registry and rotation
+ * each mode supplies its rules as hooks, rooms switch to the next mode when a round ends
+ */
+
+import { GAME_CONFIG, MODE_CONFIG, MODE_REGISTRY } from "../constants.js";
+import { freeForAll } from "./modes/ffa.js";
+import { teamDeathmatch } from "./modes/tdm.js";
+import { captureTheFlag } from "./modes/ctf.js";
+import { kingOfTheHill } from "./modes/koth.js";
+import { battleRoyale } from "./modes/br.js";
+import { gunGame } from "./modes/gun.js";
+import { resetScores, resetTeams } from "./teams.js";
+
+// Type imports
+import type { GameMode, GameModeSummary, GameState, MapData } from "../types/game.js";
+
+// ===== REGISTRY =====
+
+// mode rules keyed by the ids in MODE_REGISTRY
+const GAME_MODES: Record<keyof typeof MODE_REGISTRY, GameMode> = {
+  ffa: freeForAll,
+  tdm: teamDeathmatch,
+  ctf: captureTheFlag,
+  koth: kingOfTheHill,
+  br: battleRoyale,
+  gun: gunGame,
+};
+
+/**
+ * gets every registered mode id in rotation order
+ */
+export function getModeIds(): string[] {
+  return Object.keys(MODE_REGISTRY);
+}
+
+/**
+ * gets the rules for a mode, unknown modes fall back to the default mode
+ */
+export function getGameMode(modeId: string): GameMode {
+  return GAME_MODES[modeId as keyof typeof GAME_MODES] ?? GAME_MODES[MODE_CONFIG.DEFAULT_MODE];
+}
+
+/**
+ * gets the mode that follows the given one in the rotation
+ * modes the map cannot host (e.g. no flag bases) are skipped
+ */
+export function getNextModeId(currentModeId: string, map: MapData): string {
+  const modeIds = getModeIds();
+  const index = modeIds.indexOf(currentModeId);
+  if (index === -1) return MODE_CONFIG.DEFAULT_MODE;
+
+  for (let offset = 1; offset <= modeIds.length; offset++) {
+    const modeId = modeIds[(index + offset) % modeIds.length];
+    const mode = getGameMode(modeId);
+    if (!mode.supportsMap || mode.supportsMap(map)) return modeId;
+  }
+  return MODE_CONFIG.DEFAULT_MODE;
+}
+
+// ===== ROOM MODE =====
+
+/**
+ * switches a room to another mode, clearing teams, scores and objectives
+ */
+export function changeMode(game: GameState, modeId: string): GameMode {
+  const mode = getGameMode(modeId);
+  game.modeId = mode.id;
+  resetTeams(game);
+  return startMode(game, mode);
+}
+
+/**
+ * starts another round of the room's mode, clearing scores and objectives but keeping teams
+ */
+export function restartMode(game: GameState): GameMode {
+  resetScores(game);
+  return startMode(game, getGameMode(game.modeId));
+}
+
+/**
+ * clears the previous round's objectives and lets the mode set up its own
+ */
+function startMode(game: GameState, mode: GameMode): GameMode {
+  game.flags = {};
+  game.hill = null;
+  game.royale = null;
+  mode.onStart?.(game);
+  return mode;
+}
+
+/**
+ * checks if the round should end before time runs out
+ * either the mode's own win condition is met or a team or player reached the score limit
+ */
+export function isRoundOver(game: GameState, now: number): boolean {
+  const { scoreLimit, isRoundOver: isModeRoundOver } = getGameMode(game.modeId);
+  if (isModeRoundOver?.(game, now)) return true;
+  if (scoreLimit === undefined) return false;
+
+  const scores = [...Object.values(game.teamScores), ...Object.values(game.playerScores)];
+  return scores.some(score => score >= scoreLimit);
+}
+
+/**
+ * gets how long a round of the room's mode lasts, null if it only ends by score
+ */
+export function getTimeLimitSeconds(game: GameState): number | null {
+  const { timeLimitMinutes } = getGameMode(game.modeId);
+  if (timeLimitMinutes === null) return null;
+  return (timeLimitMinutes ?? GAME_CONFIG.GAME_DURATION_MINUTES) * 60;
+}
+
+/**
+ * builds the mode info clients show on the HUD, leaderboard and game-ended screen
+ */
+export function getModeSummary(game: GameState): GameModeSummary {
+  const mode = getGameMode(game.modeId);
+  const winnerId = mode.getWinnerId?.(game) ?? null;
+  return {
+    modeId: mode.id,
+    name: mode.name,
+    teams: mode.teams ? [...MODE_CONFIG.TEAMS] : [],
+    teamScores: mode.teams ? { ...game.teamScores } : {},
+    playerScores: mode.teams ? {} : { ...game.playerScores },
+    scoreLimit: mode.scoreLimit ?? null,
+    winner: winnerId ? game.players[winnerId]?.username ?? null : null,
+  };
+}
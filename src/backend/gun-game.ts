@@ -0,0 +1,58 @@
+/**
+ * gun-game.ts - weapon ladder progression for gun game
+ * a player's step on the ladder is their score, every kill with their current weapon moves them up one
+ */
+
+import { GUN_GAME_CONFIG } from "../constants.js";
+import { createAmmoState } from "./ammo.js";
+import { getWeapon } from "./weapons.js";
+import { addSideScore } from "./teams.js";
+
+// Type imports
+import type { GameState, ServerPlayer } from "../types/game.js";
+
+// ===== LADDER =====
+
+/**
+ * gets how many ladder steps a player has climbed, the ladder length once they have won
+ */
+export function getLadderIndex(game: GameState, playerId: string): number {
+  return game.playerScores[playerId] ?? 0;
+}
+
+/**
+ * gets the weapon for a ladder step, players past the end keep the last weapon
+ */
+export function getLadderWeaponId(index: number): string {
+  return GUN_GAME_CONFIG.LADDER[Math.min(index, GUN_GAME_CONFIG.LADDER.length - 1)];
+}
+
+/**
+ * replaces the player's loadout with a single weapon with full ammo
+ */
+function equipLadderWeapon(player: ServerPlayer, weaponId: string): void {
+  player.weapons = { [weaponId]: createAmmoState(getWeapon(weaponId)) };
+  player.weaponId = weaponId;
+}
+
+// ===== MODE HOOKS =====
+
+/**
+ * gives a spawning player the weapon for their current step
+ */
+export function equipForLadder(game: GameState, player: ServerPlayer): void {
+  equipLadderWeapon(player, getLadderWeaponId(getLadderIndex(game, player.id)));
+}
+
+/**
+ * moves the killer up the ladder and hands them the next weapon straight away
+ * a kill with the last weapon reaches the score limit and wins the round
+ */
+export function climbLadder(game: GameState, killer: ServerPlayer): void {
+  addSideScore(game, killer);
+
+  const index = getLadderIndex(game, killer.id);
+  if (index < GUN_GAME_CONFIG.LADDER.length) {
+    equipLadderWeapon(killer, getLadderWeaponId(index));
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * hill.ts - zone control for king of the hill
+ * a side standing alone in the zone takes it over time, then scores while it stays there alone
+ */
+
+import { GAME_CONFIG, HILL_CONFIG } from "../constants.js";
+import { checkCollision } from "./physics.js";
+import { addSideScore, getSide, getSideName } from "./teams.js";
+
+// Type imports
+import type { GameState, HillState, HillZone, ServerPlayer } from "../types/game.js";
+
+// ===== HILL CREATION =====
+
+/**
+ * creates an unclaimed hill covering the given zone
+ */
+export function createHill(zone: HillZone, now: number): HillState {
+  return {
+    ...zone,
+    holderId: null,
+    holderName: null,
+    capturingId: null,
+    capturingName: null,
+    captureMs: 0,
+    progress: 0,
+    contested: false,
+    nextPointAt: 0,
+    updatedAt: now,
+  };
+}
+
+/**
+ * sets how far the capturing side is through taking the zone
+ */
+function setCaptureTime(hill: HillState, captureMs: number): void {
+  hill.captureMs = Math.min(Math.max(captureMs, 0), HILL_CONFIG.CAPTURE_MS);
+  hill.progress = hill.captureMs / HILL_CONFIG.CAPTURE_MS;
+}
+
+// ===== OCCUPANCY =====
+
+/**
+ * gets one living player per side standing in the zone
+ */
+function getOccupyingSides(game: GameState, hill: HillState): Map<string, ServerPlayer> {
+  const sides = new Map<string, ServerPlayer>();
+  for (const player of Object.values(game.players)) {
+    if (player.health <= 0) continue;
+
+    const bounds = { x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE };
+    const side = getSide(player);
+    if (!sides.has(side) && checkCollision(hill, bounds)) {
+      sides.set(side, player);
+    }
+  }
+  return sides;
+}
+
+// ===== HILL RULES =====
+
+/**
+ * advances capture progress and scoring from who is standing in the zone
+ * an empty zone drains unfinished captures, a contested one freezes them
+ * returns announcements for the room
+ */
+export function updateHill(game: GameState, now: number): string[] {
+  const hill = game.hill;
+  if (!hill) return [];
+
+  const elapsed = now - hill.updatedAt;
+  hill.updatedAt = now;
+
+  const sides = getOccupyingSides(game, hill);
+  hill.contested = sides.size > 1;
+
+  if (sides.size === 0 && hill.capturingId !== null) {
+    setCaptureTime(hill, hill.captureMs - elapsed);
+    if (hill.captureMs === 0) {
+      hill.capturingId = null;
+      hill.capturingName = null;
+    }
+  }
+  if (sides.size !== 1) return [];
+
+  const [[side, player]] = sides;
+
+  // the holder scores while nobody else is inside
+  if (side === hill.holderId) {
+    hill.capturingId = null;
+    hill.capturingName = null;
+    setCaptureTime(hill, 0);
+    if (now >= hill.nextPointAt) {
+      addSideScore(game, player);
+      hill.nextPointAt = now + HILL_CONFIG.POINT_INTERVAL_MS;
+    }
+    return [];
+  }
+
+  // anyone else has to stand alone in the zone long enough to take it
+  if (hill.capturingId !== side) {
+    hill.capturingId = side;
+    hill.capturingName = getSideName(player);
+    setCaptureTime(hill, 0);
+  }
+  setCaptureTime(hill, hill.captureMs + elapsed);
+  if (hill.captureMs < HILL_CONFIG.CAPTURE_MS) return [];
+
+  hill.holderId = side;
+  hill.holderName = hill.capturingName;
+  hill.capturingId = null;
+  hill.capturingName = null;
+  setCaptureTime(hill, 0);
+  hill.nextPointAt = now + HILL_CONFIG.POINT_INTERVAL_MS;
+  return [`${hill.holderName} took the kitchen!`];
+}
+
+/**
+ * lets go of the zone once the last player of the side holding or taking it has left the room
+ * a player without a team also takes their points with them, deaths change nothing
+ * returns announcements for the room
+ */
+export function releaseHill(game: GameState, player: ServerPlayer): string[] {
+  const hill = game.hill;
+  if (!hill || game.players[player.id]) return [];
+
+  const side = getSide(player);
+  if (Object.values(game.players).some(other => getSide(other) === side)) return [];
+
+  if (!player.team) {
+    delete game.playerScores[player.id];
+  }
+  if (hill.capturingId === side) {
+    hill.capturingId = null;
+    hill.capturingName = null;
+    setCaptureTime(hill, 0);
+  }
+  if (hill.holderId !== side) return [];
+
+  const holderName = hill.holderName;
+  hill.holderId = null;
+  hill.holderName = null;
+  return [`${holderName} left the kitchen unclaimed`];
+}
@@ -0,0 +1,102 @@
+/**
+ * lag-compensation.ts - per-tick player position history for rewound hit detection
+ * resolves hits against where the shooter saw the target, up to a capped rewind window
+ */
+
+import { GAME_CONFIG } from "../constants.js";
+
+// Type imports
+import type { PlayerBounds, PositionSample, ServerPlayer } from "../types/game.js";
+
+// ===== CONSTANTS =====
+
+// furthest back in time a hit can be resolved
+const MAX_REWIND_MS = GAME_CONFIG.MAX_REWIND_MS;
+
+// ===== POSITION HISTORY =====
+
+/**
+ * records a player's position for this tick and drops samples outside the rewind window
+ */
+export function recordPositionHistory(history: PositionSample[], player: ServerPlayer, time: number): void {
+  history.push({ time, x: player.x, y: player.y });
+
+  // keep one sample older than the window so the oldest rewind can still interpolate
+  while (history.length > 2 && history[1].time < time - MAX_REWIND_MS) {
+    history.shift();
+  }
+}
+
+/**
+ * calculates how far to rewind for a shot, from the server time the shooter was viewing
+ */
+export function calculateRewind(viewTime: number | undefined, now: number): number {
+  if (viewTime === undefined || !Number.isFinite(viewTime)) return 0;
+  return Math.min(Math.max(now - viewTime, 0), MAX_REWIND_MS);
+}
+
+/**
+ * gets a player's bounding box as it was at the given time
+ * interpolates between recorded ticks, falls back to the current position without history
+ */
+export function getRewoundBounds(
+  player: ServerPlayer,
+  history: PositionSample[] | undefined,
+  time: number
+): PlayerBounds {
+  const bounds: PlayerBounds = {
+    x: player.x,
+    y: player.y,
+    width: GAME_CONFIG.PLAYER_SIZE,
+    height: GAME_CONFIG.PLAYER_SIZE,
+  };
+
+  if (!history || history.length === 0) return bounds;
+
+  // before the recorded window: use the oldest sample
+  if (time <= history[0].time) {
+    bounds.x = history[0].x;
+    bounds.y = history[0].y;
+    return bounds;
+  }
+
+  for (let i = history.length - 1; i > 0; i--) {
+    const older = history[i - 1];
+    const newer = history[i];
+
+    if (time >= older.time && time <= newer.time) {
+      const t = newer.time === older.time ? 1 : (time - older.time) / (newer.time - older.time);
+      bounds.x = older.x + (newer.x - older.x) * t;
+      bounds.y = older.y + (newer.y - older.y) * t;
+      return bounds;
+    }
+  }
+
+  // after the latest sample: use the current position
+  return bounds;
+}
+
+/**
+ * gets the box covering everywhere a player has been within the rewind window
+ * any rewound bounds for the player lie inside it, so it is what the per-tick player index holds
+ */
+export function getRewindWindowBounds(player: ServerPlayer, history: PositionSample[] | undefined): PlayerBounds {
+  let minX = player.x;
+  let minY = player.y;
+  let maxX = player.x;
+  let maxY = player.y;
+
+  for (const sample of history ?? []) {
+    minX = Math.min(minX, sample.x);
+    minY = Math.min(minY, sample.y);
+    maxX = Math.max(maxX, sample.x);
+    maxY = Math.max(maxY, sample.y);
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX + GAME_CONFIG.PLAYER_SIZE,
+    height: maxY - minY + GAME_CONFIG.PLAYER_SIZE,
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * map-loader.ts - loads Tiled .tmx maps and their .tsx tilesets from src/tilesets
+ * the server owns the map layout and derives wall collision boxes from tile properties
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { FLAG_CONFIG, HILL_CONFIG, MAP_CONFIG, MODE_CONFIG, PICKUP_CONFIG, SPAWN_CONFIG } from "../constants.js";
+import { getMapName } from "./map-registry.js";
+import { isRegisteredWeapon } from "./weapons.js";
+
+// Type imports
+import type { FlagBase, HillZone, MapData, PickupKind, PickupSpawn, SpawnPoint, TilesetData, WallData } from "../types/game.js";
+
+// ===== CONSTANTS =====
+
+const TILESET_DIR = fileURLToPath(new URL("../tilesets/", import.meta.url));
+const PUBLIC_DIR = fileURLToPath(new URL("../../public/", import.meta.url));
+
+// Tiled stores flip/rotation flags in the top bits of each gid
+const GID_MASK = 0x1fffffff;
+
+// ===== MAP CACHE =====
+
+const loadedMaps: Record<string, MapData> = {};
+
+// ===== XML HELPERS =====
+
+type TiledProperties = Record<string, string | number | boolean>;
+
+/**
+ * reads the attributes of the first tag with the given name
+ */
+function parseAttributes(xml: string, tagName: string): Record<string, string> | null {
+  const tag = xml.match(new RegExp(`<${tagName}\\b([^>]*)>`));
+  if (!tag) return null;
+
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag[1].matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * reads a <properties> block into typed values
+ */
+function parseProperties(xml: string): TiledProperties {
+  const properties: TiledProperties = {};
+  const block = xml.match(/<properties>([\s\S]*?)<\/properties>/);
+  if (!block) return properties;
+
+  for (const [property] of block[1].matchAll(/<property\b[^>]*\/>/g)) {
+    const attributes = parseAttributes(property, "property");
+    if (!attributes?.name) continue;
+
+    const value = attributes.value ?? "";
+    switch (attributes.type) {
+      case "bool":
+        properties[attributes.name] = value === "true";
+        break;
+      case "int":
+      case "float":
+        properties[attributes.name] = Number(value);
+        break;
+      default:
+        properties[attributes.name] = value;
+    }
+  }
+  return properties;
+}
+
+/**
+ * reads a number attribute, throwing if it is missing
+ */
+function requireNumber(attributes: Record<string, string>, name: string, source: string): number {
+  const value = Number(attributes[name]);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${source} is missing a numeric "${name}" attribute`);
+  }
+  return value;
+}
+
+// ===== TILESET LOADING =====
+
+/**
+ * loads a tileset (inline or from an external .tsx) and the gids of its colliding tiles
+ */
+function loadTileset(
+  xml: string,
+  firstGid: number,
+  baseDir: string,
+  collidingGids: Set<number>
+): TilesetData {
+  const attributes = parseAttributes(xml, "tileset");
+  if (!attributes) throw new Error("Tileset has no <tileset> element");
+
+  const image = parseAttributes(xml, "image");
+  let imageUrl: string | null = null;
+  if (image?.source) {
+    // only images inside public/ can be served to the client
+    const imagePath = path.resolve(baseDir, image.source);
+    const relative = path.relative(PUBLIC_DIR, imagePath);
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+      imageUrl = relative.split(path.sep).join("/");
+    }
+  }
+
+  for (const [, tileId, tileXml] of xml.matchAll(/<tile\s+id="(\d+)"[^>]*>([\s\S]*?)<\/tile>/g)) {
+    const properties = parseProperties(tileXml);
+    if (properties[MAP_CONFIG.COLLISION_PROPERTY] === true) {
+      collidingGids.add(firstGid + Number(tileId));
+    }
+  }
+
+  return {
+    firstGid,
+    image: imageUrl,
+    tileWidth: requireNumber(attributes, "tilewidth", "Tileset"),
+    tileHeight: requireNumber(attributes, "tileheight", "Tileset"),
+    tileCount: requireNumber(attributes, "tilecount", "Tileset"),
+    columns: requireNumber(attributes, "columns", "Tileset"),
+  };
+}
+
+// ===== MAP LOADING =====
+
+/**
+ * builds collision rectangles in world coordinates for every colliding tile
+ */
+function buildWalls(map: Omit<MapData, "walls">, collidingGids: Set<number>): Record<string, WallData> {
+  const walls: Record<string, WallData> = {};
+  const width = map.tileWidth * map.scale;
+  const height = map.tileHeight * map.scale;
+
+  for (const layer of map.layers) {
+    layer.forEach((row, rowIndex) => {
+      row.forEach((gid, colIndex) => {
+        if (!collidingGids.has(gid)) return;
+
+        const id = `wall_${rowIndex}_${colIndex}`;
+        walls[id] = {
+          id,
+          x: colIndex * width + MAP_CONFIG.WALL_OFFSET,
+          y: rowIndex * height + MAP_CONFIG.WALL_OFFSET,
+          width,
+          height,
+        };
+      });
+    });
+  }
+
+  return walls;
+}
+
+/**
+ * reads the attributes and properties of every object in the named object layer
+ */
+function parseLayerObjects(
+  mapXml: string,
+  layerName: string
+): Array<{ attributes: Record<string, string>; properties: TiledProperties }> {
+  const objects: Array<{ attributes: Record<string, string>; properties: TiledProperties }> = [];
+
+  for (const [group, groupBody] of mapXml.matchAll(/<objectgroup\b[^>]*>([\s\S]*?)<\/objectgroup>/g)) {
+    const groupAttributes = parseAttributes(group, "objectgroup");
+    if (groupAttributes?.name !== layerName) continue;
+
+    for (const [object] of groupBody.matchAll(/<object\b[^>]*?(\/>|>[\s\S]*?<\/object>)/g)) {
+      objects.push({
+        attributes: parseAttributes(object, "object"),
+        properties: parseProperties(object),
+      });
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * reads spawn points and zones from the map's spawn object layer
+ * object positions are map pixels, scaled here into world coordinates
+ */
+function parseSpawnPoints(mapXml: string, scale: number): SpawnPoint[] {
+  return parseLayerObjects(mapXml, SPAWN_CONFIG.LAYER_NAME).map(({ attributes, properties }) => {
+    const weight = typeof properties.weight === "number" ? properties.weight : 1;
+
+    return {
+      id: `spawn_${attributes.id}`,
+      x: requireNumber(attributes, "x", "Spawn object") * scale,
+      y: requireNumber(attributes, "y", "Spawn object") * scale,
+      width: Number(attributes.width || 0) * scale,
+      height: Number(attributes.height || 0) * scale,
+      team: typeof properties.team === "string" && properties.team !== "" ? properties.team : null,
+      weight: Math.max(weight, 0),
+    };
+  });
+}
+
+/**
+ * reads pickup points from the map's pickup object layer
+ * "kind" is health, ammo, weapon or armor; "item" names the health item or weapon
+ */
+function parsePickupSpawns(mapXml: string, scale: number, mapId: string): PickupSpawn[] {
+  return parseLayerObjects(mapXml, PICKUP_CONFIG.LAYER_NAME).map(({ attributes, properties }) => {
+    const kind = properties.kind as PickupKind;
+    let item = typeof properties.item === "string" && properties.item !== "" ? properties.item : null;
+
+    if (kind === "health") {
+      if (!item || !Object.prototype.hasOwnProperty.call(PICKUP_CONFIG.HEALTH_ITEMS, item)) {
+        item = PICKUP_CONFIG.DEFAULT_HEALTH_ITEM;
+      }
+    } else if (kind === "weapon") {
+      if (!item || !isRegisteredWeapon(item)) {
+        throw new Error(`Map ${mapId} pickup ${attributes.id} has unknown weapon "${item}"`);
+      }
+    } else if (kind === "ammo" || kind === "armor") {
+      item = null;
+    } else {
+      throw new Error(`Map ${mapId} pickup ${attributes.id} has unknown kind "${kind}"`);
+    }
+
+    return {
+      id: `pickup_${attributes.id}`,
+      x: requireNumber(attributes, "x", "Pickup object") * scale,
+      y: requireNumber(attributes, "y", "Pickup object") * scale,
+      kind,
+      item,
+    };
+  });
+}
+
+/**
+ * reads team bases from the map's flag object layer
+ * every object needs a "team" property naming one of the mode teams
+ */
+function parseFlagBases(mapXml: string, scale: number, mapId: string): FlagBase[] {
+  return parseLayerObjects(mapXml, FLAG_CONFIG.LAYER_NAME).map(({ attributes, properties }) => {
+    const team = properties.team;
+    if (typeof team !== "string" || !(MODE_CONFIG.TEAMS as readonly string[]).includes(team)) {
+      throw new Error(`Map ${mapId} flag ${attributes.id} has unknown team "${team}"`);
+    }
+
+    return {
+      team,
+      x: requireNumber(attributes, "x", "Flag object") * scale,
+      y: requireNumber(attributes, "y", "Flag object") * scale,
+    };
+  });
+}
+
+/**
+ * reads rectangular zones from the map's hill object layer
+ */
+function parseHillZones(mapXml: string, scale: number, mapId: string): HillZone[] {
+  return parseLayerObjects(mapXml, HILL_CONFIG.LAYER_NAME).map(({ attributes }) => {
+    const width = Number(attributes.width || 0) * scale;
+    const height = Number(attributes.height || 0) * scale;
+    if (width <= 0 || height <= 0) {
+      throw new Error(`Map ${mapId} hill ${attributes.id} must be a rectangle`);
+    }
+
+    return {
+      id: `hill_${attributes.id}`,
+      x: requireNumber(attributes, "x", "Hill object") * scale,
+      y: requireNumber(attributes, "y", "Hill object") * scale,
+      width,
+      height,
+    };
+  });
+}
+
+/**
+ * parses a .tmx map from src/tilesets, results are cached per map id
+ * throws if the file is missing or uses an unsupported format
+ */
+export function loadMap(mapId: string): MapData {
+  if (loadedMaps[mapId]) return loadedMaps[mapId];
+
+  // map ids are file names, never paths
+  if (!/^[\w-]+$/.test(mapId)) {
+    throw new Error(`Invalid map id "${mapId}"`);
+  }
+
+  const mapXml = readFileSync(path.join(TILESET_DIR, `${mapId}.tmx`), "utf8");
+  const mapAttributes = parseAttributes(mapXml, "map");
+  if (!mapAttributes) throw new Error(`Map ${mapId} has no <map> element`);
+  if (mapAttributes.orientation !== "orthogonal" || mapAttributes.infinite === "1") {
+    throw new Error(`Map ${mapId} must be a finite orthogonal map`);
+  }
+
+  // map-level properties come before the first tileset or layer
+  const headerXml = mapXml.split(/<tileset\b|<layer\b/)[0];
+  const mapProperties = parseProperties(headerXml);
+
+  // tilesets
+  const collidingGids = new Set<number>();
+  const tilesets: TilesetData[] = [];
+  for (const [tilesetTag, , inlineBody] of mapXml.matchAll(/<tileset\b[^>]*?(\/>|>([\s\S]*?)<\/tileset>)/g)) {
+    const attributes = parseAttributes(tilesetTag, "tileset");
+    const firstGid = requireNumber(attributes, "firstgid", `Map ${mapId} tileset`);
+
+    if (attributes.source) {
+      const tilesetPath = path.join(TILESET_DIR, attributes.source);
+      const tilesetXml = readFileSync(tilesetPath, "utf8");
+      tilesets.push(loadTileset(tilesetXml, firstGid, path.dirname(tilesetPath), collidingGids));
+    } else if (inlineBody !== undefined) {
+      tilesets.push(loadTileset(tilesetTag, firstGid, TILESET_DIR, collidingGids));
+    }
+  }
+
+  // tile layers
+  const layers: number[][][] = [];
+  for (const [, layerXml] of mapXml.matchAll(/<layer\b[^>]*>([\s\S]*?)<\/layer>/g)) {
+    const data = layerXml.match(/<data encoding="csv">([\s\S]*?)<\/data>/);
+    if (!data) throw new Error(`Map ${mapId} has a layer that is not csv encoded`);
+
+    layers.push(
+      data[1]
+        .trim()
+        .split(/\r?\n/)
+        .map(row => row.split(",").filter(tile => tile.trim() !== "").map(tile => Number(tile) & GID_MASK))
+    );
+  }
+
+  const scale = typeof mapProperties.scale === "number" ? mapProperties.scale : 1;
+  const spawnPoints = parseSpawnPoints(mapXml, scale);
+  if (spawnPoints.length === 0) {
+    throw new Error(`Map ${mapId} has no objects in its "${SPAWN_CONFIG.LAYER_NAME}" layer`);
+  }
+
+  const map: Omit<MapData, "walls"> = {
+    id: mapId,
+    name: getMapName(mapId),
+    width: requireNumber(mapAttributes, "width", `Map ${mapId}`),
+    height: requireNumber(mapAttributes, "height", `Map ${mapId}`),
+    tileWidth: requireNumber(mapAttributes, "tilewidth", `Map ${mapId}`),
+    tileHeight: requireNumber(mapAttributes, "tileheight", `Map ${mapId}`),
+    scale,
+    layers,
+    tilesets,
+    spawnPoints,
+    pickupSpawns: parsePickupSpawns(mapXml, scale, mapId),
+    flagBases: parseFlagBases(mapXml, scale, mapId),
+    hillZones: parseHillZones(mapXml, scale, mapId),
+  };
+
+  loadedMaps[mapId] = { ...map, walls: buildWalls(map, collidingGids) };
+  console.log(`🗺️ Loaded map ${mapId}: ${map.width}x${map.height} tiles, ${Object.keys(loadedMaps[mapId].walls).length} walls`);
+
+  return loadedMaps[mapId];
+}
@@ -0,0 +1,42 @@
+/**
+ * map-registry.ts - maps available for play and their rotation order
+ * rooms move to the next registered map each time a round ends
+ */
+
+import { MAP_CONFIG, MAP_REGISTRY } from "../constants.js";
+
+type RegisteredMapId = keyof typeof MAP_REGISTRY;
+
+// ===== REGISTRY LOOKUPS =====
+
+/**
+ * gets every registered map id in rotation order
+ */
+export function getMapIds(): string[] {
+  return Object.keys(MAP_REGISTRY);
+}
+
+/**
+ * checks if a map id is in the registry
+ */
+export function isRegisteredMap(mapId: string): mapId is RegisteredMapId {
+  return Object.prototype.hasOwnProperty.call(MAP_REGISTRY, mapId);
+}
+
+/**
+ * gets the map that follows the given one in the rotation
+ * unknown maps fall back to the default map
+ */
+export function getNextMapId(currentMapId: string): string {
+  const mapIds = getMapIds();
+  const index = mapIds.indexOf(currentMapId);
+  if (index === -1) return MAP_CONFIG.DEFAULT_MAP;
+  return mapIds[(index + 1) % mapIds.length];
+}
+
+/**
+ * gets the display name for a map
+ */
+export function getMapName(mapId: string): string {
+  return isRegisteredMap(mapId) ? MAP_REGISTRY[mapId].NAME : mapId;
+}
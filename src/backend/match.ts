@@ -0,0 +1,197 @@
+/**
+ * match.ts - match phases and best-of round scoring
+ * a match warms up until enough players are in, then plays rounds of the room's mode until a side has won most of them
+ */
+
+import { MATCH_CONFIG, MODE_CONFIG } from "../constants.js";
+import { getGameMode } from "./game-modes.js";
+import { getSide, getTeamName } from "./teams.js";
+
+// Type imports
+import type { GameState, MatchState, MatchSummary, ServerPlayer } from "../types/game.js";
+
+// ===== MATCH CREATION =====
+
+/**
+ * creates a match in warmup, before its first round
+ */
+export function createMatch(): MatchState {
+  return {
+    phase: "warmup",
+    phaseEndsAt: null,
+    round: 0,
+    roundWins: {},
+    sideNames: {},
+    roundKills: {},
+    roundWinner: null,
+  };
+}
+
+// ===== PHASE CHECKS =====
+
+/**
+ * checks if players can move, shoot and work objectives (warmup and live rounds)
+ * countdowns, round results and intermissions hold everyone in place
+ */
+export function isPlaying(match: MatchState): boolean {
+  return match.phase === "warmup" || match.phase === "live";
+}
+
+/**
+ * checks if a round is being played for real, so kills, scores and the round timer count
+ */
+export function isLive(match: MatchState): boolean {
+  return match.phase === "live";
+}
+
+/**
+ * checks if the current timed phase has run out
+ */
+export function isPhaseOver(match: MatchState, now: number): boolean {
+  return match.phaseEndsAt !== null && now >= match.phaseEndsAt;
+}
+
+/**
+ * gets how many more players the room needs before warmup ends
+ */
+export function getPlayersNeeded(game: GameState): number {
+  return Math.max(MATCH_CONFIG.MIN_PLAYERS - Object.keys(game.players).length, 0);
+}
+
+/**
+ * gets the round wins that take the match, more than half of the rounds
+ */
+export function getWinsNeeded(): number {
+  return Math.floor(MATCH_CONFIG.ROUNDS / 2) + 1;
+}
+
+/**
+ * checks if the match is over: every round was played or a side can no longer be caught
+ */
+export function isMatchDecided(match: MatchState): boolean {
+  if (match.round >= MATCH_CONFIG.ROUNDS) return true;
+  return Object.values(match.roundWins).some(wins => wins >= getWinsNeeded());
+}
+
+// ===== PHASE CHANGES =====
+
+/**
+ * starts counting down to the next round
+ */
+export function startCountdown(match: MatchState, now: number): void {
+  match.phase = "countdown";
+  match.phaseEndsAt = now + MATCH_CONFIG.COUNTDOWN_MS;
+}
+
+/**
+ * goes back to warmup when players leave before the first round starts
+ */
+export function returnToWarmup(match: MatchState): void {
+  match.phase = "warmup";
+  match.phaseEndsAt = null;
+}
+
+/**
+ * starts the next round, it lasts until the mode's time limit or win condition
+ */
+export function startRound(match: MatchState): void {
+  match.phase = "live";
+  match.phaseEndsAt = null;
+  match.round++;
+  match.roundKills = {};
+  match.roundWinner = null;
+}
+
+/**
+ * ends the live round and awards it to the leading side, if any
+ */
+export function endRound(game: GameState, now: number): void {
+  const { match } = game;
+  const winner = getRoundWinner(game);
+  if (winner) {
+    match.roundWins[winner] = (match.roundWins[winner] || 0) + 1;
+    match.sideNames[winner] = getSideDisplayName(game, winner);
+  }
+
+  match.roundWinner = winner;
+  match.phase = "round_end";
+  match.phaseEndsAt = now + MATCH_CONFIG.ROUND_END_MS;
+}
+
+/**
+ * starts the break before the next round's countdown
+ */
+export function startIntermission(match: MatchState, now: number): void {
+  match.phase = "intermission";
+  match.phaseEndsAt = now + MATCH_CONFIG.INTERMISSION_MS;
+}
+
+// ===== ROUND SCORING =====
+
+/**
+ * counts a kill towards the round winner in modes without objective scores
+ */
+export function recordRoundKill(game: GameState, killer: ServerPlayer): void {
+  if (!isLive(game.match)) return;
+  const side = getSide(killer);
+  game.match.roundKills[side] = (game.match.roundKills[side] || 0) + 1;
+}
+
+/**
+ * gets the side that won the round, null for a draw
+ * the mode's own winner comes first, then the objective score, then kills this round
+ */
+export function getRoundWinner(game: GameState): string | null {
+  const mode = getGameMode(game.modeId);
+  const winnerId = mode.getWinnerId?.(game);
+  if (winnerId) return winnerId;
+
+  const scores = mode.teams ? game.teamScores : game.playerScores;
+  return getLeader(scores) ?? getLeader(game.match.roundKills);
+}
+
+/**
+ * gets the side with the single highest positive score, null when nobody scored or the top is tied
+ */
+function getLeader(scores: Record<string, number>): string | null {
+  let leader: string | null = null;
+  let topScore = 0;
+  let tied = false;
+  for (const [side, score] of Object.entries(scores)) {
+    if (score > topScore) {
+      leader = side;
+      topScore = score;
+      tied = false;
+    } else if (score === topScore && score > 0) {
+      tied = true;
+    }
+  }
+  return tied ? null : leader;
+}
+
+/**
+ * gets the display name of a side, a team name or the player's username
+ */
+function getSideDisplayName(game: GameState, side: string): string {
+  if ((MODE_CONFIG.TEAMS as readonly string[]).includes(side)) return getTeamName(side);
+  return game.players[side]?.username ?? game.match.sideNames[side] ?? "A chef";
+}
+
+// ===== CLIENT SUMMARY =====
+
+/**
+ * builds the match info clients show in phase banners
+ */
+export function getMatchSummary(game: GameState, now: number): MatchSummary {
+  const { match } = game;
+  return {
+    phase: match.phase,
+    remainingMs: match.phaseEndsAt === null ? null : Math.max(match.phaseEndsAt - now, 0),
+    round: match.round,
+    totalRounds: MATCH_CONFIG.ROUNDS,
+    winsNeeded: getWinsNeeded(),
+    playersNeeded: getPlayersNeeded(game),
+    roundWins: Object.entries(match.roundWins).map(([side, wins]) => ({ side, name: match.sideNames[side], wins })),
+    roundWinner: match.roundWinner ? match.sideNames[match.roundWinner] : null,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * br.ts - battle royale mode ("last chef standing")
+ * one life each inside a shrinking safe zone, the last chef alive wins
+ */
+
+import { MODE_REGISTRY, ROYALE_CONFIG } from "../../constants.js";
+import { loadMap } from "../map-loader.js";
+import {
+  canJoinRoyale,
+  createRoyale,
+  eliminateFromRoyale,
+  getLastChefId,
+  getZoneDamage,
+  isLastChefStanding,
+  joinRoyale,
+  updateRoyale,
+} from "../royale.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const battleRoyale: GameMode = {
+  id: "br",
+  name: MODE_REGISTRY.br.NAME,
+  teams: false,
+  timeLimitMinutes: MODE_REGISTRY.br.TIME_LIMIT_MINUTES,
+  hazardName: ROYALE_CONFIG.HAZARD_NAME,
+  regeneration: MODE_REGISTRY.br.REGENERATION,
+  armor: MODE_REGISTRY.br.ARMOR,
+
+  getDamageMultiplier: () => 1,
+
+  onStart(game) {
+    game.royale = createRoyale(loadMap(game.mapId));
+  },
+
+  onTick: updateRoyale,
+  canSpawn: canJoinRoyale,
+  onSpawn: joinRoyale,
+  getHazardDamage: getZoneDamage,
+  onPlayerRemoved: eliminateFromRoyale,
+  isRoundOver: isLastChefStanding,
+  getWinnerId: getLastChefId,
+};
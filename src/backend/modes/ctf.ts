@@ -0,0 +1,42 @@
+/**
+ * ctf.ts - capture the flag mode ("steal the recipe")
+ * teams score by carrying the enemy recipe book back to their own base
+ */
+
+import { MODE_CONFIG, MODE_REGISTRY } from "../../constants.js";
+import { loadMap } from "../map-loader.js";
+import { createFlags, dropFlag, updateFlags } from "../flags.js";
+import { areTeammates } from "../teams.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const captureTheFlag: GameMode = {
+  id: "ctf",
+  name: MODE_REGISTRY.ctf.NAME,
+  teams: true,
+  scoreLimit: MODE_REGISTRY.ctf.SCORE_LIMIT,
+  regeneration: MODE_REGISTRY.ctf.REGENERATION,
+  armor: MODE_REGISTRY.ctf.ARMOR,
+
+  getDamageMultiplier(game, shooter, target) {
+    return areTeammates(shooter, target) ? MODE_REGISTRY.ctf.FRIENDLY_FIRE_MULTIPLIER : 1;
+  },
+
+  supportsMap(map) {
+    return MODE_CONFIG.TEAMS.every(team => map.flagBases.some(base => base.team === team));
+  },
+
+  onStart(game) {
+    game.flags = createFlags(loadMap(game.mapId).flagBases);
+  },
+
+  onTick: updateFlags,
+
+  onPlayerRemoved(game, player, now) {
+    const announcement = dropFlag(game, player, now);
+    return announcement ? [announcement] : [];
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * ffa.ts - free-for-all mode
+ * everyone fights everyone, players are ranked by their own kills
+ */
+
+import { MODE_REGISTRY } from "../../constants.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const freeForAll: GameMode = {
+  id: "ffa",
+  name: MODE_REGISTRY.ffa.NAME,
+  teams: false,
+  regeneration: MODE_REGISTRY.ffa.REGENERATION,
+  armor: MODE_REGISTRY.ffa.ARMOR,
+
+  getDamageMultiplier: () => 1,
+};
@@ -0,0 +1,32 @@
+/**
+ * gun.ts - gun game mode ("chef's ladder")
+ * every kill swaps the killer to the next weapon, the first kill with the last weapon wins
+ */
+
+import { GUN_GAME_CONFIG, MODE_REGISTRY } from "../../constants.js";
+import { climbLadder, equipForLadder, getLadderIndex, getLadderWeaponId } from "../gun-game.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const gunGame: GameMode = {
+  id: "gun",
+  name: MODE_REGISTRY.gun.NAME,
+  teams: false,
+  scoreLimit: GUN_GAME_CONFIG.LADDER.length,
+  lockedLoadout: true,
+  regeneration: MODE_REGISTRY.gun.REGENERATION,
+  armor: MODE_REGISTRY.gun.ARMOR,
+
+  getDamageMultiplier: () => 1,
+
+  onSpawn: equipForLadder,
+  onKill(game, killer, victim, weaponId) {
+    // bullets still in flight from a previous rung, or the rest of the same blast, do not climb again
+    if (weaponId === getLadderWeaponId(getLadderIndex(game, killer.id))) {
+      climbLadder(game, killer);
+    }
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * koth.ts - king of the hill mode ("hold the kitchen")
+ * players, or teams with TEAM_PLAY, score by holding a map zone alone
+ */
+
+import { MODE_REGISTRY } from "../../constants.js";
+import { loadMap } from "../map-loader.js";
+import { createHill, releaseHill, updateHill } from "../hill.js";
+import { areTeammates } from "../teams.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const kingOfTheHill: GameMode = {
+  id: "koth",
+  name: MODE_REGISTRY.koth.NAME,
+  teams: MODE_REGISTRY.koth.TEAM_PLAY,
+  scoreLimit: MODE_REGISTRY.koth.SCORE_LIMIT,
+  timeLimitMinutes: MODE_REGISTRY.koth.TIME_LIMIT_MINUTES,
+  regeneration: MODE_REGISTRY.koth.REGENERATION,
+  armor: MODE_REGISTRY.koth.ARMOR,
+
+  getDamageMultiplier(game, shooter, target) {
+    return areTeammates(shooter, target) ? MODE_REGISTRY.koth.FRIENDLY_FIRE_MULTIPLIER : 1;
+  },
+
+  supportsMap(map) {
+    return map.hillZones.length > 0;
+  },
+
+  onStart(game) {
+    // maps with several zones pick one per round
+    const zones = loadMap(game.mapId).hillZones;
+    game.hill = createHill(zones[Math.floor(Math.random() * zones.length)], Date.now());
+  },
+
+  onTick: updateHill,
+
+  onPlayerRemoved: releaseHill,
+};
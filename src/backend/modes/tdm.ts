@@ -0,0 +1,30 @@
+/**
+ * tdm.ts - team deathmatch mode
+ * two balanced teams score a point for every enemy eliminated
+ */
+
+import { MODE_REGISTRY } from "../../constants.js";
+import { addTeamScore, areTeammates } from "../teams.js";
+
+// Type imports
+import type { GameMode } from "../../types/game.js";
+
+// ===== MODE DEFINITION =====
+
+export const teamDeathmatch: GameMode = {
+  id: "tdm",
+  name: MODE_REGISTRY.tdm.NAME,
+  teams: true,
+  regeneration: MODE_REGISTRY.tdm.REGENERATION,
+  armor: MODE_REGISTRY.tdm.ARMOR,
+
+  getDamageMultiplier(game, shooter, target) {
+    return areTeammates(shooter, target) ? MODE_REGISTRY.tdm.FRIENDLY_FIRE_MULTIPLIER : 1;
+  },
+
+  onKill(game, killer, victim) {
+    if (killer.team && !areTeammates(killer, victim)) {
+      addTeamScore(game, killer.team);
+    }
+  },
+};
@@ -0,0 +1,188 @@
+/**
+ * navigation.ts - walkable grid and A* pathfinding for bots
+ * each map tile is one cell, grids are built once per map from its walls
+ */
+
+import { GAME_CONFIG } from "../constants.js";
+import { checkCollision } from "./physics.js";
+import { createSpatialHash, insertIntoSpatialHash, querySpatialHash } from "./spatial-hash.js";
+
+// Type imports
+import type { Coordinate, MapData, NavGrid, WallData } from "../types/game.js";
+
+// grids are cached per map id, maps never change once loaded
+const navGrids: Record<string, NavGrid> = {};
+
+// neighbour offsets: four straight moves, then four diagonals
+const NEIGHBOURS: Coordinate[] = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// ===== GRID =====
+
+/**
+ * gets the walkable grid for a map, building it on first use
+ * a cell is walkable when a player centered on it does not touch a wall
+ */
+export function getNavGrid(map: MapData): NavGrid {
+  if (navGrids[map.id]) return navGrids[map.id];
+
+  const cellSize = map.tileWidth * map.scale;
+  const wallIndex = createSpatialHash<WallData>();
+  for (const wall of Object.values(map.walls)) {
+    insertIntoSpatialHash(wallIndex, wall);
+  }
+
+  const walkable: boolean[] = [];
+  for (let row = 0; row < map.height; row++) {
+    for (let column = 0; column < map.width; column++) {
+      const bounds = {
+        x: column * cellSize + (cellSize - GAME_CONFIG.PLAYER_SIZE) / 2,
+        y: row * cellSize + (cellSize - GAME_CONFIG.PLAYER_SIZE) / 2,
+        width: GAME_CONFIG.PLAYER_SIZE,
+        height: GAME_CONFIG.PLAYER_SIZE,
+      };
+      const nearbyWalls = querySpatialHash(wallIndex, bounds.x, bounds.y, bounds.width, bounds.height);
+      walkable.push(!nearbyWalls.some(wall => checkCollision(wall, bounds)));
+    }
+  }
+
+  navGrids[map.id] = { columns: map.width, rows: map.height, cellSize, walkable };
+  return navGrids[map.id];
+}
+
+/**
+ * checks if a cell is inside the grid and walkable
+ */
+function isWalkable(grid: NavGrid, column: number, row: number): boolean {
+  return column >= 0 && row >= 0 && column < grid.columns && row < grid.rows && grid.walkable[row * grid.columns + column];
+}
+
+/**
+ * gets the cell containing a world position
+ */
+function toCell(grid: NavGrid, x: number, y: number): Coordinate {
+  return [Math.floor(x / grid.cellSize), Math.floor(y / grid.cellSize)];
+}
+
+/**
+ * gets the world position of a cell's center
+ */
+function toWorld(grid: NavGrid, column: number, row: number): Coordinate {
+  return [(column + 0.5) * grid.cellSize, (row + 0.5) * grid.cellSize];
+}
+
+// ===== PATHFINDING =====
+
+/**
+ * finds a path between two world positions with A*
+ * diagonal steps are only taken when both straight neighbours are open, so paths never clip wall corners
+ * returns the cell centers to walk through (excluding the start), or null if the goal cannot be reached
+ */
+export function findPath(grid: NavGrid, fromX: number, fromY: number, toX: number, toY: number): Coordinate[] | null {
+  const [startColumn, startRow] = toCell(grid, fromX, fromY);
+  const [goalColumn, goalRow] = toCell(grid, toX, toY);
+  if (!isWalkable(grid, goalColumn, goalRow)) return null;
+
+  const start = startRow * grid.columns + startColumn;
+  const goal = goalRow * grid.columns + goalColumn;
+  const cameFrom = new Map<number, number>();
+  const costSoFar = new Map<number, number>([[start, 0]]);
+  const open: CellHeap = { cells: [], priorities: [] };
+  pushCell(open, start, 0);
+
+  while (open.cells.length > 0) {
+    const current = popCell(open);
+    if (current === goal) break;
+
+    const column = current % grid.columns;
+    const row = Math.floor(current / grid.columns);
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nextColumn = column + dx;
+      const nextRow = row + dy;
+      if (!isWalkable(grid, nextColumn, nextRow)) continue;
+      if (dx !== 0 && dy !== 0 && (!isWalkable(grid, column + dx, row) || !isWalkable(grid, column, row + dy))) continue;
+
+      const next = nextRow * grid.columns + nextColumn;
+      const cost = costSoFar.get(current)! + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+      if (cost >= (costSoFar.get(next) ?? Infinity)) continue;
+
+      costSoFar.set(next, cost);
+      cameFrom.set(next, current);
+      pushCell(open, next, cost + octileDistance(nextColumn, nextRow, goalColumn, goalRow));
+    }
+  }
+
+  if (start !== goal && !cameFrom.has(goal)) return null;
+
+  const path: Coordinate[] = [];
+  for (let cell = goal; cell !== start; cell = cameFrom.get(cell)!) {
+    path.push(toWorld(grid, cell % grid.columns, Math.floor(cell / grid.columns)));
+  }
+  return path.reverse();
+}
+
+/**
+ * estimates the cost between two cells when moving in eight directions
+ */
+function octileDistance(column: number, row: number, goalColumn: number, goalRow: number): number {
+  const dx = Math.abs(goalColumn - column);
+  const dy = Math.abs(goalRow - row);
+  return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+}
+
+// ===== OPEN SET =====
+
+/**
+ * binary heap of cell indexes ordered by priority, lowest first
+ */
+interface CellHeap {
+  cells: number[];
+  priorities: number[];
+}
+
+/**
+ * adds a cell to the heap
+ */
+function pushCell(heap: CellHeap, cell: number, priority: number): void {
+  heap.cells.push(cell);
+  heap.priorities.push(priority);
+  let index = heap.cells.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap.priorities[parent] <= heap.priorities[index]) break;
+    swapCells(heap, index, parent);
+    index = parent;
+  }
+}
+
+/**
+ * removes and returns the cell with the lowest priority
+ */
+function popCell(heap: CellHeap): number {
+  const top = heap.cells[0];
+  const lastCell = heap.cells.pop()!;
+  const lastPriority = heap.priorities.pop()!;
+  if (heap.cells.length === 0) return top;
+
+  heap.cells[0] = lastCell;
+  heap.priorities[0] = lastPriority;
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.cells.length && heap.priorities[left] < heap.priorities[smallest]) smallest = left;
+    if (right < heap.cells.length && heap.priorities[right] < heap.priorities[smallest]) smallest = right;
+    if (smallest === index) break;
+    swapCells(heap, index, smallest);
+    index = smallest;
+  }
+  return top;
+}
+
+/**
+ * swaps two heap entries
+ */
+function swapCells(heap: CellHeap, a: number, b: number): void {
+  [heap.cells[a], heap.cells[b]] = [heap.cells[b], heap.cells[a]];
+  [heap.priorities[a], heap.priorities[b]] = [heap.priorities[b], heap.priorities[a]];
+}
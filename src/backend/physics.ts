@@ -10,31 +10,48 @@ import {
   recordDeath, 
   sendDeathScreen, 
   broadcastKillNotification,
-  recordShotHit 
+  broadcastPlayerKilled,
+  broadcastKillstreaks,
+  recordShotHit,
+  recordStreakKill,
+  recordShutdown,
+  recordDamageTaken,
+  getAssisterIds,
+  recordAssist
 } from "./stats.js";
-import { incrementPlayerStat } from "../services/redis.js";
+import { incrementPlayerStat, raisePlayerStat } from "../services/redis.js";
+import { checkKillAchievements, recordAchievementDeath } from "./achievements.js";
+import { getRewindWindowBounds, getRewoundBounds } from "./lag-compensation.js";
+import { createSpatialHash, insertIntoSpatialHash, querySpatialHash } from "./spatial-hash.js";
+import { calculateDamage, getTravelledDistance, getWeapon, getWeaponName } from "./weapons.js";
+import { getGameMode, getModeSummary } from "./game-modes.js";
+import { areTeammates } from "./teams.js";
+import { recordRoundKill } from "./match.js";
+import { applyDamage } from "./vitals.js";
 import { GAME_CONFIG } from "../constants.js";
 
 // Type imports
 import type {
   ServerPlayer,
   ClientPlayerInput,
+  GameState,
   PlayerBounds,
   BulletData,
+  BulletImpact,
+  KillstreakEvent,
   WallData,
+  PositionSample,
+  SpatialHash,
+  SpatialItem,
   RoomEmitter,
   GameSocket
 } from "../types/game.js";
 
 // ===== CONSTANTS =====
 
-// bullet movement speed in pixels per second
-const BULLET_SPEED = GAME_CONFIG.BULLET_SPEED;
-
 // player movement constants
 const PLAYER_BASE_SPEED = GAME_CONFIG.PLAYER_BASE_SPEED;
 const PLAYER_SPRINT_BONUS = GAME_CONFIG.PLAYER_SPRINT_BONUS;
-const BULLET_DAMAGE = GAME_CONFIG.BULLET_DAMAGE;
 
 // world boundaries for bullet cleanup
 const WORLD_BOUNDARY = GAME_CONFIG.WORLD_BOUNDARY;
@@ -53,23 +70,92 @@ export function checkCollision(aBox: PlayerBounds | BulletData | WallData, bBox:
   );
 }
 
+/**
+ * sweeps a moving point against a box grown by padX/padY on each side (segment vs AABB slab test)
+ * returns the fraction of the segment travelled before entering the box, or null if it never does
+ */
+export function sweepSegmentAABB(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  box: PlayerBounds | WallData,
+  padX: number,
+  padY: number
+): number | null {
+  let tEnter = 0;
+  let tExit = 1;
+
+  const axes: Array<[number, number, number, number]> = [
+    [x0, x1 - x0, box.x - padX, box.x + box.width + padX],
+    [y0, y1 - y0, box.y - padY, box.y + box.height + padY],
+  ];
+
+  for (const [start, delta, min, max] of axes) {
+    if (delta === 0) {
+      // parallel to this slab: must already be inside it
+      if (start <= min || start >= max) return null;
+      continue;
+    }
+
+    let t1 = (min - start) / delta;
+    let t2 = (max - start) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+
+    tEnter = Math.max(tEnter, t1);
+    tExit = Math.min(tExit, t2);
+    if (tEnter >= tExit) return null;
+  }
+
+  return tEnter;
+}
+
+/**
+ * half extents of the axis-aligned box around a rotated bullet
+ */
+function getBulletHalfExtents(bullet: BulletData): [number, number] {
+  const cos = Math.abs(Math.cos(bullet.rotation));
+  const sin = Math.abs(Math.sin(bullet.rotation));
+  return [
+    (cos * bullet.width + sin * bullet.height) / 2,
+    (sin * bullet.width + cos * bullet.height) / 2,
+  ];
+}
+
+/**
+ * gets the box covering a bullet's whole path this tick, padded by its half extents
+ */
+function getBulletSweepBounds(bullet: BulletData): SpatialItem {
+  const [padX, padY] = getBulletHalfExtents(bullet);
+  return {
+    id: bullet.id,
+    x: Math.min(bullet.prevX, bullet.x) - padX,
+    y: Math.min(bullet.prevY, bullet.y) - padY,
+    width: Math.abs(bullet.x - bullet.prevX) + padX * 2,
+    height: Math.abs(bullet.y - bullet.prevY) + padY * 2,
+  };
+}
+
 // ===== PLAYER MOVEMENT =====
 
 /**
- * determines and applies player movement based on input and wall collisions
- * serverPlayer: authoritative server state, clientInput: player input from client
+ * determines and applies one tick of player movement based on input and wall collisions
+ * serverPlayer: authoritative server state, clientInput: player input from client, dt: tick length in seconds
+ * only walls in the grid cells around the player are tested
  */
 export function determinePlayerMovement(
   serverPlayer: ServerPlayer,
   playerBounds: PlayerBounds,
   clientInput: ClientPlayerInput,
-  walls: Record<string, WallData>
+  wallIndex: SpatialHash<WallData>,
+  dt: number
 ): void {
-  // calculate movement speed with sprint modifier
+  // calculate movement distance for this tick with sprint modifier
   let speed = PLAYER_BASE_SPEED;
   if (clientInput.keyboard.shift) {
     speed += PLAYER_SPRINT_BONUS;
   }
+  speed *= dt;
 
   // movement flags for each direction
   let canMoveUp = true;
@@ -77,8 +163,17 @@ export function determinePlayerMovement(
   let canMoveDown = true;
   let canMoveRight = true;
 
+  // walls the player could reach this tick
+  const nearbyWalls = querySpatialHash(
+    wallIndex,
+    playerBounds.x - speed,
+    playerBounds.y - speed,
+    playerBounds.width + speed * 2,
+    playerBounds.height + speed * 2
+  );
+
   // check potential collisions with walls before moving
-  Object.entries(walls).forEach(([wallId, wall]: [string, WallData]) => {
+  nearbyWalls.forEach((wall: WallData) => {
     // check upward movement collision
     if (checkCollision(wall, { ...playerBounds, y: playerBounds.y - speed })) {
       canMoveUp = false;
@@ -118,131 +213,290 @@ export function determinePlayerMovement(
 // ===== BULLET COLLISION HANDLING =====
 
 /**
- * handles collisions between bullets and players
- * applies damage and handles player death
+ * indexes every living player by the area they covered during the rewind window
+ * rebuilt each tick after position history is recorded
+ */
+export function createPlayerIndex(
+  players: Record<string, ServerPlayer>,
+  positionHistory: Record<string, PositionSample[]>,
+  cellSize?: number
+): SpatialHash<SpatialItem> {
+  const playerIndex = createSpatialHash<SpatialItem>(cellSize);
+  for (const player of Object.values(players)) {
+    if (player.health <= 0) continue;
+    insertIntoSpatialHash(playerIndex, { id: player.id, ...getRewindWindowBounds(player, positionHistory[player.id]) });
+  }
+  return playerIndex;
+}
+
+/**
+ * indexes every bullet by the path it swept this tick
+ * rebuilt each tick after bullets move
+ */
+export function createBulletIndex(bullets: Record<string, BulletData>, cellSize?: number): SpatialHash<SpatialItem> {
+  const bulletIndex = createSpatialHash<SpatialItem>(cellSize);
+  for (const bullet of Object.values(bullets)) {
+    insertIntoSpatialHash(bulletIndex, getBulletSweepBounds(bullet));
+  }
+  return bulletIndex;
+}
+
+/**
+ * finds the earliest wall or player each bullet's path crossed this tick
+ * players are tested where the shooter saw them (lag compensation), walls block hits behind them
+ * playerIndex: living players from createPlayerIndex
+ */
+export function findBulletImpacts(
+  bullets: Record<string, BulletData>,
+  wallIndex: SpatialHash<WallData>,
+  playerIndex: SpatialHash<SpatialItem>,
+  players: Record<string, ServerPlayer>,
+  positionHistory: Record<string, PositionSample[]>,
+  now: number
+): Record<string, BulletImpact> {
+  const impacts: Record<string, BulletImpact> = {};
+
+  for (const [bulletId, bullet] of Object.entries(bullets)) {
+    const [padX, padY] = getBulletHalfExtents(bullet);
+    let earliest: BulletImpact | null = null;
+
+    const testBox = (box: PlayerBounds | WallData, targetId: string | null): void => {
+      const t = sweepSegmentAABB(bullet.prevX, bullet.prevY, bullet.x, bullet.y, box, padX, padY);
+      if (t !== null && (!earliest || t < earliest.t)) {
+        earliest = {
+          targetId,
+          t,
+          x: bullet.prevX + (bullet.x - bullet.prevX) * t,
+          y: bullet.prevY + (bullet.y - bullet.prevY) * t,
+        };
+      }
+    };
+
+    // only walls and players in the cells this tick's path passes through
+    const sweep = getBulletSweepBounds(bullet);
+    const nearbyWalls = querySpatialHash(wallIndex, sweep.x, sweep.y, sweep.width, sweep.height);
+    for (const wall of nearbyWalls) {
+      testBox(wall, null);
+    }
+
+    const nearbyPlayers = querySpatialHash(playerIndex, sweep.x, sweep.y, sweep.width, sweep.height);
+    for (const { id } of nearbyPlayers) {
+      // bullets never hit their shooter or dead players
+      const player = players[id];
+      if (!player || id === bullet.parent_id || player.health <= 0) continue;
+      testBox(getRewoundBounds(player, positionHistory[id], now - bullet.rewindMs), id);
+    }
+
+    if (earliest) {
+      impacts[bulletId] = earliest;
+    }
+  }
+
+  return impacts;
+}
+
+/**
+ * handles collisions between bullets and a single player
+ * applies the firing weapon's damage after range falloff and the mode's friendly-fire rule
+ * handles player death
+ * socket: emitter that reaches only the victim
+ * bulletIndex: this tick's bullet paths from createBulletIndex
+ * impacts: earliest impact per bullet from findBulletImpacts
  */
 export async function bulletPlayerCollisions(
   io: RoomEmitter,
   socket: GameSocket,
   bullets: Record<string, BulletData>,
-  players: Record<string, ServerPlayer>,
-  clientInput: ClientPlayerInput,
-  playerBounds: PlayerBounds,
+  bulletIndex: SpatialHash<SpatialItem>,
+  game: GameState,
+  currentPlayer: ServerPlayer,
+  impacts: Record<string, BulletImpact>,
   roomId: string
 ): Promise<void> {
-  const currentPlayer = players[clientInput.id];
-  if (!currentPlayer) return;
+  const mode = getGameMode(game.modeId);
 
-  // check collision between each bullet and the current player
-  for (const [bulletId, bullet] of Object.entries(bullets)) {
-    // only check collision if bullet wasn't fired by this player
-    if (bullet.parent_id !== socket.id) {
-      if (checkCollision(bullet, playerBounds)) {
-        // find the shooter for stat tracking
-        const shooter = players[bullet.parent_id];
-        
-        // record hit for shooter stats
-        if (shooter) {
-          recordShotHit(shooter, BULLET_DAMAGE);
-          try {
-            await incrementPlayerStat(roomId, bullet.parent_id, 'shotsHit', 1);
-            await incrementPlayerStat(roomId, bullet.parent_id, 'damageDealt', BULLET_DAMAGE);
-          } catch (error) {
-            console.error(`❌ Failed to update hit stats for ${bullet.parent_id}:`, error);
-          }
-        }
-        
-        // apply damage to player
-        currentPlayer.health -= BULLET_DAMAGE;
-        
-        // remove the bullet that hit
-        delete bullets[bulletId];
-
-        // handle player death
-        if (currentPlayer.health <= 0) {
-          console.log(`💀 ${bullet.parent_username} eliminated ${clientInput.username}`);
-          
-          // record kill and death stats
-          if (shooter) {
-            recordKill(shooter);
-            try {
-              await incrementPlayerStat(roomId, bullet.parent_id, 'kills', 1);
-            } catch (error) {
-              console.error(`❌ Failed to update kill stats for ${bullet.parent_id}:`, error);
-            }
-          }
-          
-          try {
-            await incrementPlayerStat(roomId, clientInput.id, 'deaths', 1);
-            
-            // calculate and record time alive for this life
-            const timeAliveThisLife = Math.floor((Date.now() - currentPlayer.sessionStartTime) / 1000);
-            await incrementPlayerStat(roomId, clientInput.id, 'timeAlive', timeAliveThisLife);
-          } catch (error) {
-            console.error(`❌ Failed to update death stats for ${clientInput.id}:`, error);
-          }
-          
-          const deathInfo = recordDeath(currentPlayer, bullet.parent_username);
-          
-          // send death screen to victim
-          sendDeathScreen(socket, deathInfo);
-          
-          // broadcast kill notification with stats
-          if (shooter) {
-            broadcastKillNotification(io, bullet.parent_username, clientInput.username, shooter.stats);
-          }
-          
-          // send death update to player
-          socket.emit("clientUpdateSelf", currentPlayer);
-          return;
+  // only bullets whose path came near where the player was during the rewind window can have hit them
+  const area = getRewindWindowBounds(currentPlayer, game.positionHistory[currentPlayer.id]);
+  for (const { id: bulletId } of querySpatialHash(bulletIndex, area.x, area.y, area.width, area.height)) {
+    // only bullets whose first impact this tick was this player
+    const bullet = bullets[bulletId];
+    const impact = impacts[bulletId];
+    if (bullet && impact?.targetId === currentPlayer.id) {
+      // find the shooter for stat tracking
+      const shooter = game.players[bullet.parent_id];
+      const multiplier = shooter ? mode.getDamageMultiplier(game, shooter, currentPlayer) : 1;
+      const damage = Math.round(calculateDamage(bullet, impact.x, impact.y) * multiplier);
+      const weaponName = getWeaponName(bullet.weaponId);
+
+      // the bullet is absorbed even when the mode blocks its damage or the player is spawn protected
+      delete bullets[bulletId];
+      if (damage <= 0 || currentPlayer.spawnProtected) continue;
+      
+      // log rewind amount so lag compensation can be audited
+      console.log(`🎯 ${bullet.parent_username} hit ${currentPlayer.username} (rewound ${Math.round(bullet.rewindMs)}ms)`);
+      
+      // record hit for shooter stats
+      if (shooter) {
+        recordShotHit(shooter, damage);
+        try {
+          await incrementPlayerStat(roomId, bullet.parent_id, 'shotsHit', 1);
+          await incrementPlayerStat(roomId, bullet.parent_id, 'damageDealt', damage);
+        } catch (error) {
+          console.error(`❌ Failed to update hit stats for ${bullet.parent_id}:`, error);
         }
       }
+      
+      // apply damage to player, armor takes its share first in modes with armor
+      const healthBefore = currentPlayer.health;
+      const armorBefore = currentPlayer.armor;
+      const healthLost = applyDamage(currentPlayer, damage, mode.armor, Date.now());
+
+      // remember who dealt it, only the health and armor the victim really lost counts towards assists
+      const lost = Math.min(healthLost, healthBefore) + (armorBefore - currentPlayer.armor);
+      recordDamageTaken(currentPlayer, bullet.parent_id, bullet.parent_username, lost);
+
+      // handle player death
+      if (currentPlayer.health <= 0) {
+        await handlePlayerDeath(io, socket, game, currentPlayer, shooter, bullet.parent_username, weaponName, roomId, bullet.weaponId);
+        return;
+      }
     }
   }
 }
 
+/**
+ * records a player's death, shows them the death screen and tells the room who got the kill
+ * killer is undefined when nobody gets credit, such as a battle royale zone death;
+ * team kills give no kill credit
+ * socket: emitter that reaches only the victim
+ * weaponId: weapon that fired the killing bullet, none for environmental deaths
+ */
+export async function handlePlayerDeath(
+  io: RoomEmitter,
+  socket: GameSocket,
+  game: GameState,
+  victim: ServerPlayer,
+  killer: ServerPlayer | undefined,
+  killerName: string,
+  weaponName: string,
+  roomId: string,
+  weaponId?: string
+): Promise<void> {
+  const mode = getGameMode(game.modeId);
+  console.log(`💀 ${killerName} eliminated ${victim.username} with ${weaponName}`);
+  
+  // the victim's streak ends with this life
+  const endedStreak = victim.killStreak;
+  const streakEvents: KillstreakEvent[] = [];
+
+  // record kill and death stats
+  if (killer && !areTeammates(killer, victim)) {
+    recordKill(killer);
+    recordRoundKill(game, killer);
+    streakEvents.push(...recordStreakKill(killer));
+    const shutdown = recordShutdown(killer, victim);
+    if (shutdown) {
+      streakEvents.push(shutdown);
+    }
+    checkKillAchievements(game, killer, roomId);
+    try {
+      await incrementPlayerStat(roomId, killer.id, 'kills', 1);
+      await raisePlayerStat(roomId, killer.id, 'longestStreak', killer.killStreak);
+      if (shutdown) {
+        await incrementPlayerStat(roomId, killer.id, 'shutdowns', 1);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to update kill stats for ${killer.id}:`, error);
+    }
+
+    // let the mode score the kill and tell clients about team score changes
+    if (mode.onKill) {
+      mode.onKill(game, killer, victim, weaponId);
+      io.emit("gameModeUpdate", getModeSummary(game));
+    }
+  }
+  
+  // everyone else who did enough damage recently gets an assist, teammates of the victim never do
+  const assisterIds = getAssisterIds(victim, killer?.id ?? null)
+    .filter(assisterId => game.players[assisterId] && !areTeammates(game.players[assisterId], victim));
+  for (const assisterId of assisterIds) {
+    recordAssist(game.players[assisterId]);
+    try {
+      await incrementPlayerStat(roomId, assisterId, 'assists', 1);
+    } catch (error) {
+      console.error(`❌ Failed to update assist stats for ${assisterId}:`, error);
+    }
+  }
+
+  recordAchievementDeath(game, victim);
+  try {
+    await incrementPlayerStat(roomId, victim.id, 'deaths', 1);
+    
+    // calculate and record time alive for this life
+    const timeAliveThisLife = Math.floor((Date.now() - victim.sessionStartTime) / 1000);
+    await incrementPlayerStat(roomId, victim.id, 'timeAlive', timeAliveThisLife);
+  } catch (error) {
+    console.error(`❌ Failed to update death stats for ${victim.id}:`, error);
+  }
+  
+  const deathInfo = recordDeath(victim, killerName, weaponName);
+  
+  // send death screen to victim
+  sendDeathScreen(socket, deathInfo);
+  
+  // broadcast kill notification with stats
+  if (killer) {
+    broadcastKillNotification(io, killerName, victim.username, weaponName, killer.stats);
+  }
+  broadcastPlayerKilled(io, killer, killerName, victim, weaponName, endedStreak, assisterIds);
+  broadcastKillstreaks(io, streakEvents, victim.username);
+  
+  // send death update to player
+  socket.emit("clientUpdateSelf", victim);
+}
+
 /**
  * handles collisions between bullets and walls
- * removes bullets that hit walls
+ * removes bullets whose earliest impact this tick was a wall
  */
 export function bulletWallCollisions(
-  walls: Record<string, WallData>,
-  bullets: Record<string, BulletData>
+  bullets: Record<string, BulletData>,
+  impacts: Record<string, BulletImpact>
 ): void {
-  Object.entries(walls).forEach(([wallId, wall]: [string, WallData]) => {
-    Object.entries(bullets).forEach(([bulletId, bullet]: [string, BulletData]) => {
-      if (checkCollision(wall, bullet)) {
-        // remove bullet that hit wall
-        delete bullets[bulletId];
-      }
-    });
-  });
+  for (const [bulletId, impact] of Object.entries(impacts)) {
+    if (impact.targetId === null) {
+      // remove bullet that hit wall
+      delete bullets[bulletId];
+    }
+  }
 }
 
 // ===== BULLET MOVEMENT =====
 
 /**
- * updates bullet positions and removes out-of-bounds bullets
- * broadcasts updated bullet positions to all clients
+ * updates bullet positions and removes bullets that are out of bounds or past their weapon's range
+ * broadcasts updated bullet positions to all clients stamped with the server time
  */
 export function updateBulletPosition(
   io: RoomEmitter,
   bullets: Record<string, BulletData>,
-  dt: number
+  dt: number,
+  serverTime: number = Date.now()
 ): void {
-  // early return if no bullets to update
-  if (Object.keys(bullets).length === 0) return;
-
   // update each bullet's position
   for (const id in bullets) {
     const bullet = bullets[id];
+    const weapon = getWeapon(bullet.weaponId);
     
-    // move bullet based on rotation and speed
-    bullet.x += Math.cos(bullet.rotation) * BULLET_SPEED * dt;
-    bullet.y += Math.sin(bullet.rotation) * BULLET_SPEED * dt;
+    // move bullet based on rotation and speed, remembering where this tick's path starts
+    bullet.prevX = bullet.x;
+    bullet.prevY = bullet.y;
+    bullet.x += Math.cos(bullet.rotation) * weapon.PROJECTILE_SPEED * dt;
+    bullet.y += Math.sin(bullet.rotation) * weapon.PROJECTILE_SPEED * dt;
 
-    // remove bullets that are out of world bounds
+    // remove bullets that are out of world bounds or range
     if (
+      getTravelledDistance(bullet) > weapon.MAX_RANGE ||
       bullet.x > WORLD_BOUNDARY ||
       bullet.x < -WORLD_BOUNDARY ||
       bullet.y > WORLD_BOUNDARY ||
@@ -252,7 +506,7 @@ export function updateBulletPosition(
     }
   }
 
-  // broadcast updated bullet positions to all clients
-  io.emit("clientUpdateAllBullets", bullets);
+  // broadcast updated bullet positions to all clients, an empty snapshot tells them the last bullets are gone
+  io.emit("clientUpdateAllBullets", bullets, serverTime);
 }
   
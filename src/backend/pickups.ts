@@ -0,0 +1,194 @@
+/**
+ * pickups.ts - health, ammo, weapon and armor pickups with timed respawns
+ * map pickups come back after a delay once collected, dropped weapons expire instead
+ */
+
+import crypto from "crypto";
+
+import { GAME_CONFIG, PICKUP_CONFIG, WEAPON_CONFIG } from "../constants.js";
+import { checkCollision } from "./physics.js";
+import { createAmmoState } from "./ammo.js";
+import { getWeapon } from "./weapons.js";
+import { getGameMode } from "./game-modes.js";
+import { addArmor } from "./vitals.js";
+
+// Type imports
+import type { GameMode, GameState, MapData, PickupData, PickupKind, ServerPlayer } from "../types/game.js";
+
+type HealthItemId = keyof typeof PICKUP_CONFIG.HEALTH_ITEMS;
+
+// ===== PICKUP CREATION =====
+
+/**
+ * creates an active pickup centered on the given point
+ */
+function createPickup(id: string, kind: PickupKind, item: string | null, x: number, y: number, expiresAt: number | null): PickupData {
+  return {
+    id,
+    kind,
+    item,
+    x: x - PICKUP_CONFIG.SIZE / 2,
+    y: y - PICKUP_CONFIG.SIZE / 2,
+    width: PICKUP_CONFIG.SIZE,
+    height: PICKUP_CONFIG.SIZE,
+    active: true,
+    respawnAt: 0,
+    expiresAt,
+  };
+}
+
+/**
+ * creates the pickups placed by a map's pickup layer, all available at the start
+ */
+export function createMapPickups(map: MapData): Record<string, PickupData> {
+  const pickups: Record<string, PickupData> = {};
+  for (const spawn of map.pickupSpawns) {
+    pickups[spawn.id] = createPickup(spawn.id, spawn.kind, spawn.item, spawn.x, spawn.y, null);
+  }
+  return pickups;
+}
+
+/**
+ * drops a dead player's equipped weapon where they died
+ * the default weapon is never dropped since everyone spawns with it, nor are weapons in modes with locked loadouts
+ * returns true if a pickup was created
+ */
+export function dropWeapon(game: GameState, player: ServerPlayer, now: number): boolean {
+  if (!PICKUP_CONFIG.DROP_WEAPON_ON_DEATH || player.weaponId === WEAPON_CONFIG.DEFAULT_WEAPON || getGameMode(game.modeId).lockedLoadout) {
+    return false;
+  }
+
+  const id = `drop_${crypto.randomUUID()}`;
+  const x = player.x + GAME_CONFIG.PLAYER_SIZE / 2;
+  const y = player.y + GAME_CONFIG.PLAYER_SIZE / 2;
+  game.pickups[id] = createPickup(id, "weapon", player.weaponId, x, y, now + PICKUP_CONFIG.DROP_LIFETIME_MS);
+  return true;
+}
+
+// ===== PICKUP LIFECYCLE =====
+
+/**
+ * gets how long a map pickup of the given kind stays gone after being collected
+ */
+function getRespawnDelay(kind: PickupKind): number {
+  switch (kind) {
+    case "health":
+      return PICKUP_CONFIG.HEALTH_RESPAWN_MS;
+    case "ammo":
+      return PICKUP_CONFIG.AMMO_RESPAWN_MS;
+    case "weapon":
+      return PICKUP_CONFIG.WEAPON_RESPAWN_MS;
+    case "armor":
+      return PICKUP_CONFIG.ARMOR_RESPAWN_MS;
+  }
+}
+
+/**
+ * brings back map pickups whose respawn time has passed and removes expired drops
+ * returns true if any pickup changed
+ */
+export function updatePickups(game: GameState, now: number): boolean {
+  let changed = false;
+
+  for (const [id, pickup] of Object.entries(game.pickups)) {
+    if (pickup.expiresAt !== null && now >= pickup.expiresAt) {
+      delete game.pickups[id];
+      changed = true;
+    } else if (!pickup.active && now >= pickup.respawnAt) {
+      pickup.active = true;
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+// ===== COLLECTING =====
+
+/**
+ * gets the display name of what a pickup gives
+ */
+export function getPickupName(pickup: PickupData): string {
+  switch (pickup.kind) {
+    case "health":
+      return PICKUP_CONFIG.HEALTH_ITEMS[pickup.item as HealthItemId]?.NAME ?? "Food";
+    case "ammo":
+      return "Ammo";
+    case "weapon":
+      return getWeapon(pickup.item ?? WEAPON_CONFIG.DEFAULT_WEAPON).NAME;
+    case "armor":
+      return PICKUP_CONFIG.ARMOR_NAME;
+  }
+}
+
+/**
+ * applies a pickup to a player
+ * returns false if the player would gain nothing, leaving the pickup in place
+ */
+function applyPickup(player: ServerPlayer, pickup: PickupData, mode: GameMode): boolean {
+  switch (pickup.kind) {
+    case "health": {
+      if (player.health >= GAME_CONFIG.PLAYER_HEALTH) return false;
+      const heal = PICKUP_CONFIG.HEALTH_ITEMS[pickup.item as HealthItemId]?.HEAL ?? 0;
+      player.health = Math.min(player.health + heal, GAME_CONFIG.PLAYER_HEALTH);
+      return true;
+    }
+    case "ammo": {
+      // reserve is capped at the amount each weapon starts with
+      let gained = false;
+      for (const [weaponId, ammo] of Object.entries(player.weapons)) {
+        const weapon = getWeapon(weaponId);
+        const reserve = Math.min(ammo.reserve + weapon.MAGAZINE_SIZE * PICKUP_CONFIG.AMMO_MAGAZINES, weapon.STARTING_RESERVE);
+        if (reserve > ammo.reserve) {
+          ammo.reserve = reserve;
+          gained = true;
+        }
+      }
+      return gained;
+    }
+    case "weapon": {
+      const weaponId = pickup.item ?? WEAPON_CONFIG.DEFAULT_WEAPON;
+      const weapon = getWeapon(weaponId);
+      const ammo = player.weapons[weaponId];
+
+      // a new weapon is added with full ammo, a carried one tops up its reserve
+      if (!ammo) {
+        player.weapons[weaponId] = createAmmoState(weapon);
+        return true;
+      }
+      if (ammo.reserve >= weapon.STARTING_RESERVE) return false;
+      ammo.reserve = Math.min(ammo.reserve + weapon.MAGAZINE_SIZE, weapon.STARTING_RESERVE);
+      return true;
+    }
+    case "armor":
+      return addArmor(player, PICKUP_CONFIG.ARMOR_AMOUNT, mode.armor);
+  }
+}
+
+/**
+ * collects every active pickup the player is touching
+ * weapons are left on the ground in modes with locked loadouts, armor in modes without armor
+ * returns the pickups that were collected
+ */
+export function collectPickups(game: GameState, player: ServerPlayer, now: number): PickupData[] {
+  const bounds = { x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE };
+  const mode = getGameMode(game.modeId);
+  const lockedLoadout = mode.lockedLoadout ?? false;
+  const collected: PickupData[] = [];
+
+  for (const [id, pickup] of Object.entries(game.pickups)) {
+    if (!pickup.active || !checkCollision(pickup, bounds)) continue;
+    if (lockedLoadout && pickup.kind === "weapon") continue;
+    if (!applyPickup(player, pickup, mode)) continue;
+
+    collected.push(pickup);
+    if (pickup.expiresAt !== null) {
+      delete game.pickups[id];
+    } else {
+      pickup.active = false;
+      pickup.respawnAt = now + getRespawnDelay(pickup.kind);
+    }
+  }
+
+  return collected;
+}
@@ -0,0 +1,208 @@
+/**
+ * royale.ts - shrinking safe zone and eliminations for battle royale
+ * the zone closes in phases and burns anyone outside it, each chef gets one life
+ */
+
+import { GAME_CONFIG, ROYALE_CONFIG } from "../constants.js";
+import { loadMap } from "./map-loader.js";
+
+// Type imports
+import type { GameState, MapData, RoyaleState, SafeZone, ServerPlayer } from "../types/game.js";
+
+// ===== ROYALE CREATION =====
+
+/**
+ * creates a round with a safe zone covering the whole map, closing once the round starts
+ */
+export function createRoyale(map: MapData): RoyaleState {
+  const { width, height } = getWorldSize(map);
+  const x = width / 2;
+  const y = height / 2;
+  const radius = Math.hypot(width, height) / 2;
+
+  return {
+    zone: {
+      x,
+      y,
+      radius,
+      startX: x,
+      startY: y,
+      startRadius: radius,
+      targetX: x,
+      targetY: y,
+      targetRadius: radius,
+      phase: 0,
+      shrinking: false,
+      phaseEndsAt: null,
+      damagePerSecond: 0,
+    },
+    participants: {},
+    eliminated: [],
+  };
+}
+
+/**
+ * gets a map's size in world pixels
+ */
+function getWorldSize(map: MapData): { width: number; height: number } {
+  return {
+    width: map.width * map.tileWidth * map.scale,
+    height: map.height * map.tileHeight * map.scale,
+  };
+}
+
+// ===== SAFE ZONE =====
+
+/**
+ * picks the next circle inside the current one, kept within the map
+ */
+function startShrinking(zone: SafeZone, map: MapData, now: number): void {
+  const phase = ROYALE_CONFIG.PHASES[zone.phase];
+  const { width, height } = getWorldSize(map);
+  const firstRadius = Math.hypot(width, height) / 2;
+  const targetRadius = firstRadius * phase.RADIUS_FRACTION;
+
+  // any center this close to the current one keeps the new circle inside it
+  const angle = Math.random() * Math.PI * 2;
+  const distance = Math.random() * Math.max(zone.radius - targetRadius, 0);
+  zone.targetX = Math.min(Math.max(zone.x + Math.cos(angle) * distance, 0), width);
+  zone.targetY = Math.min(Math.max(zone.y + Math.sin(angle) * distance, 0), height);
+  zone.targetRadius = targetRadius;
+
+  zone.startX = zone.x;
+  zone.startY = zone.y;
+  zone.startRadius = zone.radius;
+  zone.shrinking = true;
+  zone.damagePerSecond = phase.DAMAGE_PER_SECOND;
+  zone.phaseEndsAt = now + phase.SHRINK_MS;
+}
+
+/**
+ * moves the zone to where the current shrink should be at the given time
+ */
+function applyShrink(zone: SafeZone, now: number): void {
+  const shrinkMs = ROYALE_CONFIG.PHASES[zone.phase].SHRINK_MS;
+  const remaining = Math.max((zone.phaseEndsAt ?? now) - now, 0);
+  const t = 1 - remaining / shrinkMs;
+
+  zone.x = zone.startX + (zone.targetX - zone.startX) * t;
+  zone.y = zone.startY + (zone.targetY - zone.startY) * t;
+  zone.radius = zone.startRadius + (zone.targetRadius - zone.startRadius) * t;
+}
+
+/**
+ * advances the safe zone through its wait and shrink phases
+ * the first phase starts when the round timer does
+ * returns announcements for the room
+ */
+export function updateRoyale(game: GameState, now: number): string[] {
+  const zone = game.royale?.zone;
+  if (!zone || !game.gameStartTime || zone.phase >= ROYALE_CONFIG.PHASES.length) return [];
+
+  if (zone.phaseEndsAt === null) {
+    zone.phaseEndsAt = now + ROYALE_CONFIG.PHASES[zone.phase].WAIT_MS;
+    return [`The safe zone starts closing in ${Math.round(ROYALE_CONFIG.PHASES[zone.phase].WAIT_MS / 1000)} seconds`];
+  }
+
+  if (!zone.shrinking) {
+    if (now < zone.phaseEndsAt) return [];
+    startShrinking(zone, loadMap(game.mapId), now);
+    return ["The safe zone is closing!"];
+  }
+
+  applyShrink(zone, now);
+  if (now < zone.phaseEndsAt) return [];
+
+  // phase finished, wait before the next one or stay closed
+  zone.shrinking = false;
+  zone.phase++;
+  if (zone.phase >= ROYALE_CONFIG.PHASES.length) {
+    zone.phaseEndsAt = null;
+    return ["The safe zone has fully closed!"];
+  }
+  zone.phaseEndsAt = now + ROYALE_CONFIG.PHASES[zone.phase].WAIT_MS;
+  return [];
+}
+
+/**
+ * gets the damage a player takes this tick for standing outside the safe zone
+ */
+export function getZoneDamage(game: GameState, player: ServerPlayer): number {
+  const zone = game.royale?.zone;
+  if (!zone || zone.damagePerSecond === 0) return 0;
+
+  const centerX = player.x + GAME_CONFIG.PLAYER_SIZE / 2;
+  const centerY = player.y + GAME_CONFIG.PLAYER_SIZE / 2;
+  if (Math.hypot(centerX - zone.x, centerY - zone.y) <= zone.radius) return 0;
+
+  return zone.damagePerSecond * GAME_CONFIG.PHYSICS_DELTA_TIME;
+}
+
+// ===== ELIMINATIONS =====
+
+/**
+ * checks if late joiners may still drop in
+ */
+function isJoinWindowOpen(game: GameState, now: number): boolean {
+  return !game.gameStartTime || now - game.gameStartTime < ROYALE_CONFIG.JOIN_WINDOW_MS;
+}
+
+/**
+ * checks if a player may spawn: once per round, and only while the join window is open
+ */
+export function canJoinRoyale(game: GameState, playerId: string, now: number): boolean {
+  if (!game.royale || game.royale.participants[playerId]) return false;
+  return isJoinWindowOpen(game, now);
+}
+
+/**
+ * records that a player has used their one life this round
+ */
+export function joinRoyale(game: GameState, player: ServerPlayer): void {
+  if (game.royale) {
+    game.royale.participants[player.id] = player.username;
+  }
+}
+
+/**
+ * gets the ids of participants who have not been knocked out
+ */
+function getSurvivorIds(royale: RoyaleState): string[] {
+  return Object.keys(royale.participants).filter(id => !royale.eliminated.includes(id));
+}
+
+/**
+ * knocks a participant out of the round (on death or disconnect)
+ * returns announcements for the room
+ */
+export function eliminateFromRoyale(game: GameState, player: ServerPlayer): string[] {
+  const royale = game.royale;
+  if (!royale || !royale.participants[player.id] || royale.eliminated.includes(player.id)) return [];
+
+  royale.eliminated.push(player.id);
+  const survivors = getSurvivorIds(royale).length;
+  return [`${player.username} is out! ${survivors} chef${survivors === 1 ? "" : "s"} left`];
+}
+
+/**
+ * checks if the round is down to its last chef
+ * a lone participant only wins once the join window has closed with nobody else joining
+ */
+export function isLastChefStanding(game: GameState, now: number): boolean {
+  const royale = game.royale;
+  if (!royale) return false;
+
+  const participants = Object.keys(royale.participants).length;
+  if (participants === 0 || getSurvivorIds(royale).length > 1) return false;
+  return participants > 1 || !isJoinWindowOpen(game, now);
+}
+
+/**
+ * gets the last chef standing, null while several are alive or if nobody survived
+ */
+export function getLastChefId(game: GameState): string | null {
+  const royale = game.royale;
+  if (!royale || !isLastChefStanding(game, Date.now())) return null;
+
+  return getSurvivorIds(royale)[0] ?? null;
+}
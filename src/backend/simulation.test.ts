@@ -0,0 +1,95 @@
+/**
+ * simulation.test.ts - input queue rate limiting
+ * usage: npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { GAME_CONFIG } from "../constants.js";
+import { determinePlayerMovement } from "./physics.js";
+import { collectTickInputs, queuePlayerInput } from "./simulation.js";
+import { createSpatialHash } from "./spatial-hash.js";
+
+// Type imports
+import type { ClientPlayerInput, GameState, ServerPlayer, WallData } from "../types/game.js";
+
+// ===== HELPERS =====
+
+/**
+ * creates a room with only the state the input queue uses
+ */
+function createGame(): GameState {
+  return { inputQueue: {}, inputBudget: {} } as GameState;
+}
+
+/**
+ * creates a sprinting input to the right
+ */
+function createInput(sequence: number): ClientPlayerInput {
+  return {
+    id: "player",
+    username: "player",
+    sequence,
+    rotation: 0,
+    mb1: false,
+    keyboard: { w: false, a: false, s: false, d: true, shift: true },
+  };
+}
+
+// ===== TESTS =====
+
+test("a flood of inputs cannot move a player faster than the move speed", () => {
+  const game = createGame();
+  const wallIndex = createSpatialHash<WallData>();
+  const player = { id: "player", x: 0, y: 0 } as ServerPlayer;
+  const moveSpeed = GAME_CONFIG.PLAYER_BASE_SPEED + GAME_CONFIG.PLAYER_SPRINT_BONUS;
+  const ticks = 120;
+  let sequence = 0;
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const now = tick * GAME_CONFIG.SIMULATION_TICK_MS;
+
+    // a stall every so often lets the player bank catch-up budget, then the flood resumes
+    if (tick % 30 < 25) {
+      for (let i = 0; i < 10; i++) {
+        queuePlayerInput(game, createInput(++sequence), now);
+      }
+    }
+
+    for (const input of collectTickInputs(game, now)) {
+      const bounds = { x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE };
+      determinePlayerMovement(player, bounds, input, wallIndex, GAME_CONFIG.PHYSICS_DELTA_TIME);
+    }
+  }
+
+  const elapsed = ticks * GAME_CONFIG.PHYSICS_DELTA_TIME;
+  assert.ok(player.x > 0);
+  assert.ok(player.x <= moveSpeed * elapsed + 1e-6, `moved ${player.x}px in ${elapsed}s`);
+});
+
+test("one input per tick is applied every tick", () => {
+  const game = createGame();
+
+  for (let tick = 1; tick <= 10; tick++) {
+    queuePlayerInput(game, createInput(tick), tick);
+    assert.deepEqual(collectTickInputs(game, tick).map(input => input.sequence), [tick]);
+  }
+});
+
+test("late input catches up with the ticks it missed, up to the budget", () => {
+  const game = createGame();
+  queuePlayerInput(game, createInput(1), 0);
+  assert.equal(collectTickInputs(game, 0).length, 1);
+
+  // several ticks pass before the next inputs arrive together
+  for (let tick = 1; tick <= 5; tick++) {
+    assert.equal(collectTickInputs(game, tick).length, 0);
+  }
+  for (let sequence = 2; sequence <= 7; sequence++) {
+    queuePlayerInput(game, createInput(sequence), 6);
+  }
+
+  assert.equal(collectTickInputs(game, 6).length, GAME_CONFIG.MAX_INPUT_BUDGET);
+  assert.equal(collectTickInputs(game, 7).length, 1);
+});
@@ -0,0 +1,68 @@
+/**
+ * simulation.ts - fixed-rate simulation input handling
+ * buffers client input between ticks so every input a client sends is simulated exactly once, in sequence order
+ * each input is one tick of movement, so players earn one input per tick however fast they send
+ */
+
+import { GAME_CONFIG } from "../constants.js";
+
+// Type imports
+import type { ClientPlayerInput, GameState } from "../types/game.js";
+
+// ===== INPUT QUEUE =====
+
+/**
+ * queues an input for the next simulation ticks, keeping each player's queue in sequence order
+ * out-of-order packets are slotted in place, duplicates are dropped, as are the oldest inputs past MAX_QUEUED_INPUTS
+ */
+export function queuePlayerInput(game: GameState, clientInput: ClientPlayerInput, now: number = Date.now()): void {
+  game.inputBudget[clientInput.id] ??= 0;
+  const queue = game.inputQueue[clientInput.id] ??= [];
+  if (queue.some(queued => queued.input.sequence === clientInput.sequence)) return;
+
+  const index = queue.findIndex(queued => queued.input.sequence > clientInput.sequence);
+  queue.splice(index === -1 ? queue.length : index, 0, { input: clientInput, receivedAt: now });
+  if (queue.length > GAME_CONFIG.MAX_QUEUED_INPUTS) {
+    queue.splice(0, queue.length - GAME_CONFIG.MAX_QUEUED_INPUTS);
+  }
+}
+
+/**
+ * takes the inputs to apply this tick in sequence order, as many per player as their budget allows
+ * every call is one tick and earns each player one input, unspent ones are banked up to MAX_INPUT_BUDGET
+ * so a player whose input arrived late can catch up without ever moving faster than one step per tick overall
+ * players with nothing queued are not simulated, so movement never runs on input the client did not send
+ */
+export function collectTickInputs(game: GameState, now: number = Date.now()): ClientPlayerInput[] {
+  const tickInputs: ClientPlayerInput[] = [];
+
+  for (const playerId of Object.keys(game.inputBudget)) {
+    game.inputBudget[playerId] = Math.min(game.inputBudget[playerId] + 1, GAME_CONFIG.MAX_INPUT_BUDGET);
+  }
+
+  for (const [playerId, queue] of Object.entries(game.inputQueue)) {
+    // drop input that waited too long, the client has moved on from it
+    while (queue.length > 0 && now - queue[0].receivedAt > GAME_CONFIG.INPUT_TIMEOUT_MS) {
+      queue.shift();
+    }
+
+    const applied = queue.splice(0, game.inputBudget[playerId]);
+    game.inputBudget[playerId] -= applied.length;
+    for (const queued of applied) {
+      tickInputs.push(queued.input);
+    }
+    if (queue.length === 0) {
+      delete game.inputQueue[playerId];
+    }
+  }
+
+  return tickInputs;
+}
+
+/**
+ * discards any queued input and banked budget for a player (on death or disconnect)
+ */
+export function clearPlayerInput(game: GameState, playerId: string): void {
+  delete game.inputQueue[playerId];
+  delete game.inputBudget[playerId];
+}
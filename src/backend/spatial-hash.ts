@@ -0,0 +1,114 @@
+/**
+ * spatial-hash.ts - uniform grid index for collision queries
+ * walls are inserted once, players and bullets are re-indexed every tick, movers query only the cells they overlap
+ */
+
+import { GAME_CONFIG } from "../constants.js";
+
+// Type imports
+import type { SpatialHash, SpatialItem } from "../types/game.js";
+
+// ===== GRID HELPERS =====
+
+/**
+ * builds the lookup key for a grid cell
+ */
+function cellKey(cellX: number, cellY: number): string {
+  return `${cellX},${cellY}`;
+}
+
+/**
+ * calls visit for every cell key covered by the given rectangle
+ */
+function forEachCell(
+  cellSize: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  visit: (key: string) => void
+): void {
+  const minCellX = Math.floor(x / cellSize);
+  const minCellY = Math.floor(y / cellSize);
+  const maxCellX = Math.floor((x + width) / cellSize);
+  const maxCellY = Math.floor((y + height) / cellSize);
+
+  for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+    for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+      visit(cellKey(cellX, cellY));
+    }
+  }
+}
+
+// ===== SPATIAL HASH =====
+
+/**
+ * creates an empty spatial hash
+ */
+export function createSpatialHash<T extends SpatialItem>(cellSize: number = GAME_CONFIG.SPATIAL_CELL_SIZE): SpatialHash<T> {
+  return {
+    cellSize,
+    cells: new Map(),
+  };
+}
+
+/**
+ * adds an item to every cell its bounds overlap
+ */
+export function insertIntoSpatialHash<T extends SpatialItem>(hash: SpatialHash<T>, item: T): void {
+  forEachCell(hash.cellSize, item.x, item.y, item.width, item.height, (key) => {
+    let cell = hash.cells.get(key);
+    if (!cell) {
+      cell = [];
+      hash.cells.set(key, cell);
+    }
+    cell.push(item);
+  });
+}
+
+/**
+ * removes an item from the cells its bounds overlap
+ * item must have the same position it was inserted with
+ */
+export function removeFromSpatialHash<T extends SpatialItem>(hash: SpatialHash<T>, item: T): void {
+  forEachCell(hash.cellSize, item.x, item.y, item.width, item.height, (key) => {
+    const cell = hash.cells.get(key);
+    if (!cell) return;
+
+    const remaining = cell.filter(existing => existing.id !== item.id);
+    if (remaining.length > 0) {
+      hash.cells.set(key, remaining);
+    } else {
+      hash.cells.delete(key);
+    }
+  });
+}
+
+/**
+ * returns every item in the cells overlapped by the given rectangle (each item once)
+ * results are candidates only, callers still run their exact collision test
+ */
+export function querySpatialHash<T extends SpatialItem>(
+  hash: SpatialHash<T>,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): T[] {
+  const results: T[] = [];
+  const seen = new Set<string>();
+
+  forEachCell(hash.cellSize, x, y, width, height, (key) => {
+    const cell = hash.cells.get(key);
+    if (!cell) return;
+
+    for (const item of cell) {
+      if (!seen.has(item.id)) {
+        seen.add(item.id);
+        results.push(item);
+      }
+    }
+  });
+
+  return results;
+}
@@ -1,50 +1,193 @@
 /**
  * spawn.ts - player spawn point management
- * handles finding optimal spawn locations based on player positions
+ * picks spawn positions from the map's spawn layer, away from enemies, their sight lines and recent fights
  */
 
 // Type imports
-import type { ServerPlayer, Coordinate } from "../types/game.js";
-import { SPAWN_POINTS } from "../constants.js";
+import type { ServerPlayer, Coordinate, GameState, SpawnPoint, PlayerBounds } from "../types/game.js";
+import { GAME_CONFIG, SPAWN_CONFIG } from "../constants.js";
+import { checkCollision, sweepSegmentAABB } from "./physics.js";
+import { querySpatialHash } from "./spatial-hash.js";
 
-// ===== SPAWN LOGIC =====
+// ===== CANDIDATE POSITIONS =====
 
 /**
- * finds the best spawn point farthest from other players
- * returns a random spawn point if no other players exist
+ * gets the player positions (top-left) to try for a spawn point
+ * points give one position, zones give several random positions inside
  */
-export function bestSpawnPoint(players: Record<string, ServerPlayer>): Coordinate {
-  // return random spawn point if no other players exist
-  if (Object.keys(players).length === 0) {
-    const randomIndex = Math.floor(Math.random() * SPAWN_POINTS.length);
-    return SPAWN_POINTS[randomIndex] as Coordinate;
+function getCandidatePositions(spawnPoint: SpawnPoint): Coordinate[] {
+  const half = GAME_CONFIG.PLAYER_SIZE / 2;
+
+  if (spawnPoint.width === 0 && spawnPoint.height === 0) {
+    return [[spawnPoint.x - half, spawnPoint.y - half]];
   }
 
-  let maxDistance = 0;
-  let bestSpawn: Coordinate = SPAWN_POINTS[0] as Coordinate;
+  const candidates: Coordinate[] = [];
+  for (let i = 0; i < SPAWN_CONFIG.ZONE_SAMPLES; i++) {
+    candidates.push([
+      spawnPoint.x + Math.random() * spawnPoint.width - half,
+      spawnPoint.y + Math.random() * spawnPoint.height - half,
+    ]);
+  }
+  return candidates;
+}
 
-  // evaluate each spawn point to find the one farthest from all players
-  SPAWN_POINTS.forEach((spawnPoint) => {
-    let minDistanceToAnyPlayer = Infinity;
+/**
+ * checks if a player placed at the position would overlap a wall or another living player
+ */
+function isBlocked(game: GameState, position: Coordinate, playerId: string): boolean {
+  const bounds: PlayerBounds = {
+    x: position[0],
+    y: position[1],
+    width: GAME_CONFIG.PLAYER_SIZE,
+    height: GAME_CONFIG.PLAYER_SIZE,
+  };
 
-    // find the closest player to this spawn point
-    Object.values(players).forEach((serverPlayer: ServerPlayer) => {
-      // calculate euclidean distance using pythagorean theorem
-      const distance = Math.sqrt(
-        Math.pow(serverPlayer.x - spawnPoint[0], 2) + Math.pow(serverPlayer.y - spawnPoint[1], 2)
-      );
-      
-      if (distance < minDistanceToAnyPlayer) {
-        minDistanceToAnyPlayer = distance;
-      }
-    });
+  const nearbyWalls = querySpatialHash(game.wallIndex, bounds.x, bounds.y, bounds.width, bounds.height);
+  if (nearbyWalls.some(wall => checkCollision(wall, bounds))) return true;
+
+  return Object.values(game.players).some(player =>
+    player.id !== playerId &&
+    player.health > 0 &&
+    checkCollision({ x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE }, bounds)
+  );
+}
 
-    // update best spawn if this point is farther from players
-    if (minDistanceToAnyPlayer > maxDistance) {
-      maxDistance = minDistanceToAnyPlayer;
-      bestSpawn = spawnPoint as Coordinate;
+/**
+ * checks if nothing blocks the straight line between two points
+ */
+export function hasLineOfSight(game: GameState, fromX: number, fromY: number, toX: number, toY: number): boolean {
+  const nearbyWalls = querySpatialHash(
+    game.wallIndex,
+    Math.min(fromX, toX),
+    Math.min(fromY, toY),
+    Math.abs(toX - fromX),
+    Math.abs(toY - fromY)
+  );
+  return !nearbyWalls.some(wall => sweepSegmentAABB(fromX, fromY, toX, toY, wall, 0, 0) !== null);
+}
+
+// ===== SCORING =====
+
+/**
+ * scores a spawn position, higher is safer
+ * based on distance to the nearest enemy, enemy line of sight and recent deaths nearby
+ */
+function scorePosition(game: GameState, position: Coordinate, enemies: ServerPlayer[], now: number): number {
+  const half = GAME_CONFIG.PLAYER_SIZE / 2;
+  const centerX = position[0] + half;
+  const centerY = position[1] + half;
+  let score: number = SPAWN_CONFIG.SAFE_DISTANCE;
+
+  for (const enemy of enemies) {
+    const enemyX = enemy.x + half;
+    const enemyY = enemy.y + half;
+    const distance = Math.sqrt(Math.pow(enemyX - centerX, 2) + Math.pow(enemyY - centerY, 2));
+    score = Math.min(score, distance);
+  }
+
+  if (enemies.some(enemy => hasLineOfSight(game, centerX, centerY, enemy.x + half, enemy.y + half))) {
+    score *= SPAWN_CONFIG.LINE_OF_SIGHT_PENALTY;
+  }
+
+  for (const death of game.recentDeaths) {
+    if (now - death.time > SPAWN_CONFIG.RECENT_DEATH_WINDOW_MS) continue;
+    const distance = Math.sqrt(Math.pow(death.x - centerX, 2) + Math.pow(death.y - centerY, 2));
+    if (distance < SPAWN_CONFIG.RECENT_DEATH_RADIUS) {
+      score *= SPAWN_CONFIG.RECENT_DEATH_PENALTY;
     }
+  }
+
+  return score;
+}
+
+// ===== SPAWN LOGIC =====
+
+/**
+ * records where a player died so nearby spawns are avoided for a while
+ */
+export function recordDeathLocation(game: GameState, player: ServerPlayer, now: number = Date.now()): void {
+  game.recentDeaths.push({
+    x: player.x + GAME_CONFIG.PLAYER_SIZE / 2,
+    y: player.y + GAME_CONFIG.PLAYER_SIZE / 2,
+    time: now,
   });
+}
 
-  return bestSpawn;
-} 
\ No newline at end of file
+/**
+ * finds the best spawn position (player top-left) for a player
+ * spawnPoints: the spawn layer of the room's current map, team: restricts to matching or untagged spawns (null for free-for-all)
+ */
+export function bestSpawnPoint(
+  game: GameState,
+  spawnPoints: SpawnPoint[],
+  playerId: string,
+  team: string | null = null,
+  now: number = Date.now()
+): Coordinate {
+  // forget deaths that no longer affect spawning
+  game.recentDeaths = game.recentDeaths.filter(death => now - death.time <= SPAWN_CONFIG.RECENT_DEATH_WINDOW_MS);
+
+  // team players prefer their own and untagged spawns, players without a team can use any
+  const teamSpawns = team === null
+    ? spawnPoints
+    : spawnPoints.filter(spawnPoint => spawnPoint.team === null || spawnPoint.team === team);
+  const usableSpawns = teamSpawns.length > 0 ? teamSpawns : spawnPoints;
+
+  // teammates never make a spawn less safe
+  const enemies = Object.values(game.players).filter(player =>
+    player.id !== playerId && player.health > 0 && (team === null || player.team !== team)
+  );
+
+  let bestPosition: Coordinate | null = null;
+  let bestScore = -Infinity;
+
+  for (const spawnPoint of usableSpawns) {
+    for (const position of getCandidatePositions(spawnPoint)) {
+      // never spawn inside geometry or on top of someone
+      if (isBlocked(game, position, playerId)) continue;
+
+      // small random factor breaks ties between equally good spawns
+      const score = scorePosition(game, position, enemies, now) * spawnPoint.weight * (0.9 + Math.random() * 0.2);
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    }
+  }
+
+  // every candidate was blocked: use the first spawn rather than refusing to spawn
+  if (!bestPosition) {
+    console.warn(`⚠️ No unblocked spawn found for ${playerId}, using first spawn point`);
+    return getCandidatePositions(usableSpawns[0])[0];
+  }
+
+  return bestPosition;
+}
+
+// ===== SPAWN PROTECTION =====
+
+/**
+ * shields a newly spawned player from bullets for PROTECTION_MS
+ */
+export function protectSpawn(player: ServerPlayer, now: number = Date.now()): void {
+  player.spawnProtected = SPAWN_CONFIG.PROTECTION_MS > 0;
+  player.spawnProtectedUntil = now + SPAWN_CONFIG.PROTECTION_MS;
+}
+
+/**
+ * drops a player's shield once it has worn off
+ */
+export function updateSpawnProtection(player: ServerPlayer, now: number): void {
+  if (player.spawnProtected && now >= player.spawnProtectedUntil) {
+    endSpawnProtection(player);
+  }
+}
+
+/**
+ * drops a player's shield straight away, such as when they fire
+ */
+export function endSpawnProtection(player: ServerPlayer): void {
+  player.spawnProtected = false;
+  player.spawnProtectedUntil = 0;
+}
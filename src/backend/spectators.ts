@@ -0,0 +1,37 @@
+/**
+ * spectators.ts - sockets that watch a room without playing in it
+ * spectators get every room broadcast but never a player, their input is ignored until they leave
+ */
+
+// Type imports
+import type { GameState } from "../types/game.js";
+
+/**
+ * makes a socket a spectator of the room
+ */
+export function addSpectator(game: GameState, socketId: string): void {
+  game.spectators[socketId] = true;
+}
+
+/**
+ * stops a socket spectating, returns whether it was
+ */
+export function removeSpectator(game: GameState, socketId: string): boolean {
+  if (!game.spectators[socketId]) return false;
+  delete game.spectators[socketId];
+  return true;
+}
+
+/**
+ * checks if a socket is spectating the room
+ */
+export function isSpectator(game: GameState, socketId: string): boolean {
+  return !!game.spectators[socketId];
+}
+
+/**
+ * gets the number of spectators in the room
+ */
+export function getSpectatorCount(game: GameState): number {
+  return Object.keys(game.spectators).length;
+}
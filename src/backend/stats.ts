@@ -8,12 +8,15 @@ import type {
   ServerPlayer,
   PlayerStats,
   DeathInfo,
+  DamageTaken,
+  KillstreakEvent,
   RoomEmitter,
   GameSocket
 } from "../types/game.js";
 
 // Constants import
-import { DEFAULT_STATS } from "../constants.js";
+import { ASSIST_CONFIG, DEFAULT_STATS, KILLSTREAK_CONFIG, WEAPON_CONFIG } from "../constants.js";
+import { createLoadout } from "./weapons.js";
 
 // ===== CONSTANTS =====
 
@@ -44,8 +47,21 @@ export function createPlayerWithStats(
     y,
     rotation,
     health,
+    team: null,
+    carryingFlag: null,
+    spawnProtected: false,
+    spawnProtectedUntil: 0,
+    armor: 0,
+    lastDamageTime: 0,
+    weaponId: WEAPON_CONFIG.DEFAULT_WEAPON,
+    weapons: createLoadout(),
     stats: initializePlayerStats(),
     sessionStartTime: Date.now(),
+    lastProcessedInput: 0,
+    killStreak: 0,
+    multiKill: 0,
+    lastKillTime: null,
+    damageTaken: {},
   };
 }
 
@@ -79,7 +95,7 @@ export function recordKill(killer: ServerPlayer): void {
 export function recordDeath(
   victim: ServerPlayer,
   killerUsername: string,
-  weapon: string = "Bullet"
+  weapon: string
 ): DeathInfo {
   victim.stats.deaths++;
   
@@ -92,12 +108,136 @@ export function recordDeath(
     killedByWeapon: weapon,
     timeAlive,
     finalStats: { ...victim.stats },
+    damageTaken: getDamageTaken(victim),
   };
   
   victim.lastDeathInfo = deathInfo;
   return deathInfo;
 }
 
+// ===== DAMAGE AND ASSISTS =====
+
+/**
+ * adds a hit to the victim's damage ledger for this life
+ */
+export function recordDamageTaken(
+  victim: ServerPlayer,
+  attackerId: string,
+  attackerName: string,
+  damage: number,
+  now: number = Date.now()
+): void {
+  const entry = victim.damageTaken[attackerId] ??= { attackerId, attackerName, damage: 0, lastHitTime: now };
+  entry.damage += damage;
+  entry.lastHitTime = now;
+}
+
+/**
+ * gets who hurt a player this life, most damage first
+ */
+export function getDamageTaken(victim: ServerPlayer): DamageTaken[] {
+  return Object.values(victim.damageTaken)
+    .map(entry => ({ ...entry }))
+    .sort((a, b) => b.damage - a.damage);
+}
+
+/**
+ * gets the ids of players who earned an assist on a kill: enough damage, recently enough, without the final hit
+ */
+export function getAssisterIds(victim: ServerPlayer, killerId: string | null, now: number = Date.now()): string[] {
+  return Object.values(victim.damageTaken)
+    .filter(entry => entry.attackerId !== killerId)
+    .filter(entry => entry.damage >= ASSIST_CONFIG.MIN_DAMAGE && now - entry.lastHitTime <= ASSIST_CONFIG.WINDOW_MS)
+    .map(entry => entry.attackerId);
+}
+
+/**
+ * records an assist by a player
+ */
+export function recordAssist(player: ServerPlayer): void {
+  player.stats.assists++;
+}
+
+// ===== KILL STREAKS =====
+
+/**
+ * adds a kill to the killer's streak for this life and chains it into a multikill
+ * returns the named streak and multikill milestones the kill reached
+ */
+export function recordStreakKill(killer: ServerPlayer, now: number = Date.now()): KillstreakEvent[] {
+  const events: KillstreakEvent[] = [];
+
+  killer.killStreak++;
+  killer.stats.longestStreak = Math.max(killer.stats.longestStreak, killer.killStreak);
+  const streakName = getStreakName(killer.killStreak);
+  if (streakName) {
+    events.push(createKillstreakEvent(killer, "streak", streakName, killer.killStreak));
+  }
+
+  const chained = killer.lastKillTime !== null && now - killer.lastKillTime <= KILLSTREAK_CONFIG.MULTIKILL_WINDOW_MS;
+  killer.multiKill = chained ? killer.multiKill + 1 : 1;
+  killer.lastKillTime = now;
+  const multikillName = getMultikillName(killer.multiKill);
+  if (multikillName) {
+    events.push(createKillstreakEvent(killer, "multikill", multikillName, killer.multiKill));
+  }
+
+  return events;
+}
+
+/**
+ * credits a kill that ended the victim's streak, if the streak was long enough to count
+ * returns the event to announce it, null when the kill was not a shutdown
+ */
+export function recordShutdown(killer: ServerPlayer, victim: ServerPlayer): KillstreakEvent | null {
+  if (victim.killStreak < KILLSTREAK_CONFIG.SHUTDOWN_STREAK) return null;
+  killer.stats.shutdowns++;
+  return createKillstreakEvent(killer, "shutdown", "Shutdown", victim.killStreak);
+}
+
+/**
+ * gets the name of a streak milestone, null between milestones
+ */
+function getStreakName(kills: number): string | null {
+  const streaks: Record<number, string> = KILLSTREAK_CONFIG.STREAKS;
+  return streaks[kills] ?? null;
+}
+
+/**
+ * gets the name of a multikill, chains longer than the last name keep using it
+ */
+function getMultikillName(kills: number): string | null {
+  const multikills: Record<number, string> = KILLSTREAK_CONFIG.MULTIKILLS;
+  const longest = Math.max(...Object.keys(multikills).map(Number));
+  return multikills[Math.min(kills, longest)] ?? null;
+}
+
+/**
+ * creates the payload of a "killstreak" event
+ */
+function createKillstreakEvent(
+  player: ServerPlayer,
+  type: KillstreakEvent["type"],
+  streakName: string,
+  kills: number
+): KillstreakEvent {
+  return { playerId: player.id, playerName: player.username, type, streakName, kills };
+}
+
+/**
+ * checks if a streak event is big enough to announce to the whole room
+ */
+function isNotableStreak(event: KillstreakEvent): boolean {
+  switch (event.type) {
+    case "streak":
+      return event.kills >= KILLSTREAK_CONFIG.ANNOUNCE_STREAK;
+    case "multikill":
+      return event.kills >= KILLSTREAK_CONFIG.ANNOUNCE_MULTIKILL;
+    case "shutdown":
+      return true;
+  }
+}
+
 // ===== STAT BROADCASTING =====
 
 /**
@@ -127,6 +267,7 @@ export function broadcastKillNotification(
   roomEmitter: RoomEmitter,
   killerName: string,
   victimName: string,
+  weapon: string,
   killerStats: PlayerStats
 ): void {
   const killMessage = `${killerName} eliminated ${victimName}`;
@@ -135,11 +276,53 @@ export function broadcastKillNotification(
   roomEmitter.emit("killFeed", {
     killer: killerName,
     victim: victimName,
-    weapon: "Bullet",
+    weapon,
     killerStats,
   });
 }
 
+/**
+ * broadcasts a kill for clients tracking eliminations, with the streaks and assists involved
+ * killer is undefined when a hazard did it
+ */
+export function broadcastPlayerKilled(
+  roomEmitter: RoomEmitter,
+  killer: ServerPlayer | undefined,
+  killerName: string,
+  victim: ServerPlayer,
+  weapon: string,
+  endedStreak: number,
+  assisterIds: string[]
+): void {
+  roomEmitter.emit("playerKilled", {
+    killerId: killer?.id ?? null,
+    victimId: victim.id,
+    killerName,
+    victimName: victim.username,
+    weapon,
+    location: { x: victim.x, y: victim.y },
+    killerStreak: killer?.killStreak ?? 0,
+    endedStreak,
+    assisterIds,
+  });
+}
+
+/**
+ * broadcasts streak events, announcing the notable ones in the room's notifications
+ * announced tells clients the event already showed up as a notification
+ */
+export function broadcastKillstreaks(roomEmitter: RoomEmitter, events: KillstreakEvent[], victimName: string): void {
+  for (const event of events) {
+    const announced = isNotableStreak(event);
+    roomEmitter.emit("killstreak", { ...event, announced });
+    if (!announced) continue;
+
+    roomEmitter.emit("notification", event.type === "shutdown"
+      ? `🧯 ${event.playerName} ended ${victimName}'s ${event.kills} kill streak`
+      : `🔥 ${event.playerName}: ${event.streakName} (${event.kills})`);
+  }
+}
+
 // ===== UTILITY FUNCTIONS =====
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * teams.ts - team assignment and team score tracking for team modes
+ * players join the smallest team when they first spawn and keep it until the mode changes
+ */
+
+import { MODE_CONFIG } from "../constants.js";
+
+// Type imports
+import type { GameState, ServerPlayer } from "../types/game.js";
+
+// ===== TEAM STATE =====
+
+/**
+ * clears team assignments and scores, every team starting at zero
+ */
+export function resetTeams(game: GameState): void {
+  game.teams = {};
+  resetScores(game);
+}
+
+/**
+ * clears team and player scores but keeps players on their teams (between rounds of a match)
+ */
+export function resetScores(game: GameState): void {
+  game.playerScores = {};
+  game.teamScores = {};
+  for (const team of MODE_CONFIG.TEAMS) {
+    game.teamScores[team] = 0;
+  }
+}
+
+/**
+ * gets the number of players on each team
+ */
+function countTeamMembers(game: GameState): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const team of MODE_CONFIG.TEAMS) {
+    counts[team] = 0;
+  }
+  for (const team of Object.values(game.teams)) {
+    counts[team] = (counts[team] || 0) + 1;
+  }
+  return counts;
+}
+
+// ===== ASSIGNMENT =====
+
+/**
+ * gets the player's team, assigning the smallest team if they have none yet
+ * ties go to the team with the lower score so late joiners help the losing side
+ */
+export function assignTeam(game: GameState, playerId: string): string {
+  if (game.teams[playerId]) return game.teams[playerId];
+
+  const counts = countTeamMembers(game);
+  let bestTeam: string = MODE_CONFIG.TEAMS[0];
+  for (const team of MODE_CONFIG.TEAMS) {
+    const fewerPlayers = counts[team] < counts[bestTeam];
+    const lowerScore = counts[team] === counts[bestTeam] && (game.teamScores[team] || 0) < (game.teamScores[bestTeam] || 0);
+    if (fewerPlayers || lowerScore) {
+      bestTeam = team;
+    }
+  }
+
+  game.teams[playerId] = bestTeam;
+  return bestTeam;
+}
+
+/**
+ * removes a player's team assignment (on disconnect)
+ */
+export function removeFromTeam(game: GameState, playerId: string): void {
+  delete game.teams[playerId];
+}
+
+/**
+ * checks if two different players are on the same team
+ */
+export function areTeammates(a: ServerPlayer, b: ServerPlayer): boolean {
+  return a.id !== b.id && a.team !== null && a.team === b.team;
+}
+
+/**
+ * gets the display name of a team
+ */
+export function getTeamName(team: string): string {
+  return MODE_CONFIG.TEAM_NAMES[team as keyof typeof MODE_CONFIG.TEAM_NAMES] ?? team;
+}
+
+// ===== SCORING =====
+
+/**
+ * adds points to a team's score
+ */
+export function addTeamScore(game: GameState, team: string, points: number = 1): void {
+  game.teamScores[team] = (game.teamScores[team] || 0) + points;
+}
+
+// ===== SIDES =====
+
+/**
+ * gets the side a player scores for: their team, or themselves in modes without teams
+ */
+export function getSide(player: ServerPlayer): string {
+  return player.team ?? player.id;
+}
+
+/**
+ * gets the display name of a player's side
+ */
+export function getSideName(player: ServerPlayer): string {
+  return player.team ? getTeamName(player.team) : player.username;
+}
+
+/**
+ * adds points to a player's side
+ */
+export function addSideScore(game: GameState, player: ServerPlayer, points: number = 1): void {
+  if (player.team) {
+    addTeamScore(game, player.team, points);
+  } else {
+    game.playerScores[player.id] = (game.playerScores[player.id] || 0) + points;
+  }
+}
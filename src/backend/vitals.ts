@@ -0,0 +1,54 @@
+/**
+ * vitals.ts - health regeneration and armor
+ * each mode picks its rules in MODE_REGISTRY, without them health only goes down until death
+ */
+
+import { GAME_CONFIG } from "../constants.js";
+
+// Type imports
+import type { ArmorRules, RegenerationRules, ServerPlayer } from "../types/game.js";
+
+// ===== DAMAGE =====
+
+/**
+ * applies a hit to a player, their armor takes its share before health does
+ * returns the damage taken off health
+ */
+export function applyDamage(player: ServerPlayer, damage: number, rules: ArmorRules | null | undefined, now: number): number {
+  const absorbed = rules ? Math.min(player.armor, damage * rules.ABSORB_FRACTION) : 0;
+  player.armor -= absorbed;
+  player.health -= damage - absorbed;
+  player.lastDamageTime = now;
+  return damage - absorbed;
+}
+
+// ===== REGENERATION =====
+
+/**
+ * heals a living player by one tick's worth once they have gone DELAY_MS without taking damage
+ */
+export function regenerateHealth(player: ServerPlayer, rules: RegenerationRules | null | undefined, now: number): void {
+  if (!rules || player.health <= 0 || player.health >= GAME_CONFIG.PLAYER_HEALTH) return;
+  if (now - player.lastDamageTime < rules.DELAY_MS) return;
+
+  player.health = Math.min(player.health + rules.PER_SECOND * GAME_CONFIG.PHYSICS_DELTA_TIME, GAME_CONFIG.PLAYER_HEALTH);
+}
+
+// ===== ARMOR =====
+
+/**
+ * gives a new spawn the mode's starting armor
+ */
+export function equipSpawnArmor(player: ServerPlayer, rules: ArmorRules | null | undefined): void {
+  player.armor = rules?.ON_SPAWN ?? 0;
+}
+
+/**
+ * adds armor up to the mode's maximum
+ * returns false if the player would gain nothing, including in modes without armor
+ */
+export function addArmor(player: ServerPlayer, amount: number, rules: ArmorRules | null | undefined): boolean {
+  if (!rules || player.armor >= rules.MAX) return false;
+  player.armor = Math.min(player.armor + amount, rules.MAX);
+  return true;
+}
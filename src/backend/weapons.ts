@@ -0,0 +1,132 @@
+/**
+ * weapons.ts - weapon registry lookups, loadouts and projectile creation
+ * every shot's damage, speed, spread and range come from the firing weapon's definition
+ */
+
+import crypto from "crypto";
+
+import { GAME_CONFIG, WEAPON_CONFIG, WEAPON_REGISTRY } from "../constants.js";
+import { calculateRewind } from "./lag-compensation.js";
+import { cancelReload, createAmmoState } from "./ammo.js";
+
+// Type imports
+import type { AmmoState, BulletData, ClientPlayerInput, ServerPlayer, WeaponDefinition } from "../types/game.js";
+
+type RegisteredWeaponId = keyof typeof WEAPON_REGISTRY;
+
+// ===== REGISTRY LOOKUPS =====
+
+/**
+ * checks if a weapon id is in the registry
+ */
+export function isRegisteredWeapon(weaponId: string): weaponId is RegisteredWeaponId {
+  return Object.prototype.hasOwnProperty.call(WEAPON_REGISTRY, weaponId);
+}
+
+/**
+ * gets a weapon definition, unknown ids fall back to the default weapon
+ */
+export function getWeapon(weaponId: string): WeaponDefinition {
+  return isRegisteredWeapon(weaponId) ? WEAPON_REGISTRY[weaponId] : WEAPON_REGISTRY[WEAPON_CONFIG.DEFAULT_WEAPON];
+}
+
+/**
+ * gets the display name for a weapon
+ */
+export function getWeaponName(weaponId: string): string {
+  return getWeapon(weaponId).NAME;
+}
+
+// ===== LOADOUTS =====
+
+/**
+ * creates the weapons a player spawns with, each with full ammo
+ */
+export function createLoadout(): Record<string, AmmoState> {
+  const weapons: Record<string, AmmoState> = {};
+  for (const weaponId of WEAPON_CONFIG.STARTING_WEAPONS) {
+    weapons[weaponId] = createAmmoState(getWeapon(weaponId));
+  }
+  return weapons;
+}
+
+/**
+ * gets the ammo of the player's equipped weapon
+ */
+export function getEquippedAmmo(player: ServerPlayer): AmmoState {
+  if (!player.weapons[player.weaponId]) {
+    player.weapons[player.weaponId] = createAmmoState(getWeapon(player.weaponId));
+  }
+  return player.weapons[player.weaponId];
+}
+
+/**
+ * equips a carried weapon, abandoning any reload on the previous one
+ * returns true if the equipped weapon changed
+ */
+export function switchWeapon(player: ServerPlayer, weaponId: string): boolean {
+  if (weaponId === player.weaponId || !player.weapons[weaponId]) return false;
+
+  cancelReload(getEquippedAmmo(player));
+  player.weaponId = weaponId;
+  return true;
+}
+
+// ===== PROJECTILES =====
+
+/**
+ * creates the projectiles for one shot of the player's equipped weapon
+ * each pellet gets its own random spread
+ */
+export function createProjectiles(serverPlayer: ServerPlayer, clientInput: ClientPlayerInput, now: number = Date.now()): BulletData[] {
+  const weapon = getWeapon(serverPlayer.weaponId);
+  const bulletAngle = clientInput.rotation - Math.PI / 2;
+  const x = serverPlayer.x + GAME_CONFIG.PLAYER_SIZE / 2 + Math.cos(bulletAngle) * GAME_CONFIG.BULLET_OFFSET;
+  const y = serverPlayer.y + GAME_CONFIG.PLAYER_SIZE / 2 + Math.sin(bulletAngle) * GAME_CONFIG.BULLET_OFFSET;
+  const rewindMs = calculateRewind(clientInput.viewTime, now);
+
+  const projectiles: BulletData[] = [];
+  for (let i = 0; i < weapon.PELLETS; i++) {
+    const spread = (Math.random() - 0.5) * weapon.SPREAD;
+    projectiles.push({
+      id: crypto.randomUUID(),
+      parent_id: clientInput.id,
+      parent_username: clientInput.username,
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      width: weapon.PROJECTILE_WIDTH,
+      height: weapon.PROJECTILE_HEIGHT,
+      rotation: bulletAngle - spread,
+      weaponId: serverPlayer.weaponId,
+      originX: x,
+      originY: y,
+      rewindMs,
+    });
+  }
+  return projectiles;
+}
+
+/**
+ * gets how far a projectile has travelled from where it was fired
+ */
+export function getTravelledDistance(bullet: BulletData, x: number = bullet.x, y: number = bullet.y): number {
+  return Math.sqrt(Math.pow(x - bullet.originX, 2) + Math.pow(y - bullet.originY, 2));
+}
+
+/**
+ * calculates the damage of a projectile hitting at the given point, after range falloff
+ */
+export function calculateDamage(bullet: BulletData, x: number, y: number): number {
+  const weapon = getWeapon(bullet.weaponId);
+  const distance = getTravelledDistance(bullet, x, y);
+
+  if (distance <= weapon.FALLOFF_START || weapon.FALLOFF_END <= weapon.FALLOFF_START) {
+    return weapon.DAMAGE;
+  }
+
+  const t = Math.min((distance - weapon.FALLOFF_START) / (weapon.FALLOFF_END - weapon.FALLOFF_START), 1);
+  const multiplier = 1 - (1 - weapon.MIN_DAMAGE_MULTIPLIER) * t;
+  return Math.round(weapon.DAMAGE * multiplier);
+}
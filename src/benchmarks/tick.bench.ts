@@ -0,0 +1,179 @@
+/**
+ * tick.bench.ts - simulation tick cost with and without the wall and player spatial hashes
+ * runs 20 players moving and firing at full rate on the 23x33 tile map
+ * usage: npm run bench
+ */
+
+import { performance } from "perf_hooks";
+
+import { GAME_CONFIG, MAP_CONFIG, WEAPON_CONFIG, WEAPON_REGISTRY } from "../constants.js";
+import { createPlayerIndex, determinePlayerMovement, findBulletImpacts, updateBulletPosition } from "../backend/physics.js";
+import { createSpatialHash, insertIntoSpatialHash } from "../backend/spatial-hash.js";
+import { loadMap } from "../backend/map-loader.js";
+import { createLoadout } from "../backend/weapons.js";
+
+// Type imports
+import type { BulletData, ClientPlayerInput, MapData, ServerPlayer, SpatialHash, WallData } from "../types/game.js";
+
+// ===== CONFIGURATION =====
+
+const MAP_ID = "simple_1v1_map";
+const WEAPON = WEAPON_REGISTRY[WEAPON_CONFIG.DEFAULT_WEAPON];
+const FLOOR_TILES = [2, 4]; // tile gids players can stand on
+
+const PLAYER_COUNT = 20;
+const TICKS = 60 * 30; // 30 seconds of simulation
+const TICKS_PER_SHOT = Math.ceil(WEAPON.COOLDOWN_MS / GAME_CONFIG.SIMULATION_TICK_MS);
+
+// emitter stub, the benchmark only measures simulation work
+const nullEmitter = { emit: () => {} };
+
+// ===== MAP LOADING =====
+
+/**
+ * builds a wall index for the map with the given cell size
+ */
+function buildWallIndex(map: MapData, cellSize: number): SpatialHash<WallData> {
+  const wallIndex = createSpatialHash<WallData>(cellSize);
+  for (const wall of Object.values(map.walls)) {
+    insertIntoSpatialHash(wallIndex, wall);
+  }
+  return wallIndex;
+}
+
+// ===== SIMULATION =====
+
+/**
+ * small seeded random generator so both runs see identical input
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * runs the benchmark scenario and returns the average tick cost in milliseconds
+ */
+function runScenario(map: MapData, cellSize: number): { averageMs: number; maxMs: number } {
+  const random = createRandom(42);
+  const wallIndex = buildWallIndex(map, cellSize);
+  const tileSize = map.tileWidth * map.scale;
+  const players: Record<string, ServerPlayer> = {};
+  const inputs: Record<string, ClientPlayerInput> = {};
+  const bullets: Record<string, BulletData> = {};
+
+  // place players on random floor tiles
+  const floorTiles: Array<[number, number]> = [];
+  map.layers[0].forEach((row, rowIndex) => {
+    row.forEach((tile, colIndex) => {
+      if (FLOOR_TILES.includes(tile)) floorTiles.push([colIndex, rowIndex]);
+    });
+  });
+
+  for (let i = 0; i < PLAYER_COUNT; i++) {
+    const [col, row] = floorTiles[Math.floor(random() * floorTiles.length)];
+    const id = `player_${i}`;
+    players[id] = {
+      id,
+      username: id,
+      x: col * tileSize + MAP_CONFIG.WALL_OFFSET + (tileSize - GAME_CONFIG.PLAYER_SIZE) / 2,
+      y: row * tileSize + MAP_CONFIG.WALL_OFFSET + (tileSize - GAME_CONFIG.PLAYER_SIZE) / 2,
+      rotation: 0,
+      health: GAME_CONFIG.PLAYER_HEALTH,
+      team: null,
+      carryingFlag: null,
+      spawnProtected: false,
+      spawnProtectedUntil: 0,
+      armor: 0,
+      lastDamageTime: 0,
+      weaponId: WEAPON_CONFIG.DEFAULT_WEAPON,
+      weapons: createLoadout(),
+      stats: { kills: 0, deaths: 0, damageDealt: 0, shotsFired: 0, shotsHit: 0, timeAlive: 0, gamesPlayed: 0, longestStreak: 0, assists: 0, shutdowns: 0 },
+      sessionStartTime: 0,
+      lastProcessedInput: 0,
+      killStreak: 0,
+      multiKill: 0,
+      lastKillTime: null,
+      damageTaken: {},
+    };
+  }
+
+  let bulletCounter = 0;
+  let totalMs = 0;
+  let maxMs = 0;
+
+  for (let tick = 0; tick < TICKS; tick++) {
+    const tickStart = performance.now();
+
+    for (const player of Object.values(players)) {
+      // change held keys every half second
+      if (tick % 30 === 0 || !inputs[player.id]) {
+        inputs[player.id] = {
+          id: player.id,
+          username: player.username,
+          sequence: tick,
+          rotation: random() * Math.PI * 2,
+          mb1: true,
+          keyboard: { w: random() < 0.5, a: random() < 0.5, s: random() < 0.5, d: random() < 0.5, shift: random() < 0.3 },
+        };
+      }
+
+      const input = inputs[player.id];
+      const bounds = { x: player.x, y: player.y, width: GAME_CONFIG.PLAYER_SIZE, height: GAME_CONFIG.PLAYER_SIZE };
+      determinePlayerMovement(player, bounds, input, wallIndex, GAME_CONFIG.PHYSICS_DELTA_TIME);
+
+      // fire at the full rate allowed by the shooting cooldown
+      if (tick % TICKS_PER_SHOT === 0) {
+        const x = player.x + GAME_CONFIG.PLAYER_SIZE / 2;
+        const y = player.y + GAME_CONFIG.PLAYER_SIZE / 2;
+        const id = `bullet_${bulletCounter++}`;
+        bullets[id] = {
+          id,
+          parent_id: player.id,
+          parent_username: player.username,
+          x,
+          y,
+          prevX: x,
+          prevY: y,
+          width: WEAPON.PROJECTILE_WIDTH,
+          height: WEAPON.PROJECTILE_HEIGHT,
+          rotation: input.rotation,
+          weaponId: WEAPON_CONFIG.DEFAULT_WEAPON,
+          originX: x,
+          originY: y,
+          rewindMs: 0,
+        };
+      }
+    }
+
+    updateBulletPosition(nullEmitter, bullets, GAME_CONFIG.PHYSICS_DELTA_TIME);
+    const playerIndex = createPlayerIndex(players, {}, cellSize);
+    const impacts = findBulletImpacts(bullets, wallIndex, playerIndex, players, {}, 0);
+    for (const bulletId of Object.keys(impacts)) {
+      delete bullets[bulletId];
+    }
+
+    const tickMs = performance.now() - tickStart;
+    totalMs += tickMs;
+    maxMs = Math.max(maxMs, tickMs);
+  }
+
+  return { averageMs: totalMs / TICKS, maxMs };
+}
+
+// ===== MAIN =====
+
+const map = loadMap(MAP_ID);
+console.log(`🏃 ${PLAYER_COUNT} players, ${TICKS} ticks`);
+
+// a single huge cell makes every query return every wall and player, i.e. the old linear scan
+const linear = runScenario(map, Number.MAX_SAFE_INTEGER);
+const grid = runScenario(map, GAME_CONFIG.SPATIAL_CELL_SIZE);
+
+console.log(`📏 linear scan:  avg ${linear.averageMs.toFixed(3)}ms/tick, max ${linear.maxMs.toFixed(3)}ms`);
+console.log(`🧮 spatial hash: avg ${grid.averageMs.toFixed(3)}ms/tick, max ${grid.maxMs.toFixed(3)}ms`);
+console.log(`⚡ ${(linear.averageMs / grid.averageMs).toFixed(1)}x faster (tick budget ${GAME_CONFIG.SIMULATION_TICK_MS.toFixed(2)}ms)`);
@@ -9,23 +9,22 @@ export const GAME_CONFIG = {
   // Player constants
   PLAYER_SIZE: 70,
   PLAYER_HEALTH: 100,
-  PLAYER_BASE_SPEED: 3,
-  PLAYER_SPRINT_BONUS: 1.5,
+  PLAYER_BASE_SPEED: 300, // pixels per second
+  PLAYER_SPRINT_BONUS: 150, // pixels per second
   
-  // Bullet constants
-  BULLET_WIDTH: 20,
-  BULLET_HEIGHT: 5,
-  BULLET_OFFSET: 30,
-  BULLET_SPREAD: 0.05,
-  BULLET_SPEED: 2000,
-  BULLET_DAMAGE: 10,
+  // Bullet constants (per-weapon values live in WEAPON_REGISTRY)
+  BULLET_OFFSET: 30, // projectiles spawn this far from the player's center
   
   // Timing constants
-  SHOOTING_COOLDOWN: 1000 / 10, // 10 shots per second
-  ENEMY_UPDATE_RATE: 1000 / 50, // 50 FPS
-  BULLET_UPDATE_RATE: 1000 / 50, // 50 FPS
+  TICK_RATE: 60, // simulation ticks per second
+  SIMULATION_TICK_MS: 1000 / 60, // must match TICK_RATE
+  PHYSICS_DELTA_TIME: 1 / 60, // seconds per simulation tick
+  INPUT_TIMEOUT_MS: 250, // queued input older than this is dropped instead of applied
+  MAX_INPUT_BUDGET: 3, // ticks of movement a player can bank while their input is late, spent catching up after jitter
+  MAX_QUEUED_INPUTS: 12, // inputs buffered per player, the oldest are dropped beyond this
+  MAX_REWIND_MS: 200, // lag compensation never resolves hits further back than this
+  SPATIAL_CELL_SIZE: 128, // spatial hash cell size in pixels (one scaled map tile)
   STATS_UPDATE_RATE: 1000, // 1 second
-  PHYSICS_DELTA_TIME: 1 / 60, // 60 FPS physics
   
   // Game timing
   GAME_DURATION_MINUTES: 5,
@@ -36,12 +35,69 @@ export const GAME_CONFIG = {
   WORLD_BOUNDARY: 5000,
 } as const;
 
-// ===== AMMO SYSTEM =====
-export const AMMO_CONFIG = {
-  MAX_MAGAZINE: 30,
-  STARTING_RESERVE: 240,
-  RELOAD_TIME_MS: 3000,
-  SHOOTING_COOLDOWN: 1000 / 10, // 10 shots per second (matches server)
+// ===== WEAPON CONFIGURATION =====
+export const WEAPON_CONFIG = {
+  DEFAULT_WEAPON: "rifle", // equipped on spawn, also used for unknown weapon ids
+  STARTING_WEAPONS: ["rifle"], // carried on spawn, others are picked up, in weapon slot order
+} as const;
+
+// ===== WEAPON REGISTRY =====
+// damage is per pellet; it falls off linearly from FALLOFF_START to FALLOFF_END (pixels travelled)
+export const WEAPON_REGISTRY = {
+  rifle: {
+    NAME: "Rifle",
+    DAMAGE: 10,
+    PROJECTILE_SPEED: 2000, // pixels per second
+    SPREAD: 0.05, // radians
+    PELLETS: 1,
+    COOLDOWN_MS: 1000 / 10, // 10 shots per second
+    MAGAZINE_SIZE: 30,
+    STARTING_RESERVE: 240,
+    RELOAD_TIME_MS: 3000,
+    FALLOFF_START: 800,
+    FALLOFF_END: 1600,
+    MIN_DAMAGE_MULTIPLIER: 0.5,
+    MAX_RANGE: 3000, // projectiles are removed after travelling this far
+    PROJECTILE_SPRITE: "images/bullet.png",
+    PROJECTILE_WIDTH: 20,
+    PROJECTILE_HEIGHT: 5,
+  },
+  shotgun: {
+    NAME: "Shotgun",
+    DAMAGE: 9,
+    PROJECTILE_SPEED: 1600,
+    SPREAD: 0.35,
+    PELLETS: 8,
+    COOLDOWN_MS: 700,
+    MAGAZINE_SIZE: 6,
+    STARTING_RESERVE: 36,
+    RELOAD_TIME_MS: 2500,
+    FALLOFF_START: 200,
+    FALLOFF_END: 600,
+    MIN_DAMAGE_MULTIPLIER: 0.2,
+    MAX_RANGE: 900,
+    PROJECTILE_SPRITE: "images/bullet.png",
+    PROJECTILE_WIDTH: 12,
+    PROJECTILE_HEIGHT: 4,
+  },
+  sniper: {
+    NAME: "Sniper",
+    DAMAGE: 75,
+    PROJECTILE_SPEED: 3500,
+    SPREAD: 0.005,
+    PELLETS: 1,
+    COOLDOWN_MS: 1200,
+    MAGAZINE_SIZE: 5,
+    STARTING_RESERVE: 25,
+    RELOAD_TIME_MS: 3500,
+    FALLOFF_START: 5000,
+    FALLOFF_END: 5000,
+    MIN_DAMAGE_MULTIPLIER: 1,
+    MAX_RANGE: 5000,
+    PROJECTILE_SPRITE: "images/bullet.png",
+    PROJECTILE_WIDTH: 32,
+    PROJECTILE_HEIGHT: 4,
+  },
 } as const;
 
 // ===== VISUAL EFFECTS CONSTANTS =====
@@ -107,16 +163,188 @@ export const RENDERING_CONFIG = {
     HEIGHT: 5,
     Y_OFFSET: 8,
   },
+  
+  // Remote entity snapshot interpolation
+  INTERPOLATION: {
+    RENDER_DELAY_MS: 100, // how far in the past enemies and bullets are rendered
+    MAX_EXTRAPOLATION_MS: 200, // how long to keep moving entities when snapshots stop arriving
+    MAX_SNAPSHOTS: 60,
+  },
+} as const;
+
+// ===== SPAWN SELECTION =====
+// spawn points come from the "spawns" object layer of each map
+export const SPAWN_CONFIG = {
+  LAYER_NAME: "spawns", // Tiled object layer holding spawn points and zones
+  ZONE_SAMPLES: 4, // random positions tried inside each spawn zone
+  SAFE_DISTANCE: 1500, // enemies farther than this no longer improve a spawn's score
+  LINE_OF_SIGHT_PENALTY: 0.25, // score multiplier when an enemy can see the spawn
+  RECENT_DEATH_RADIUS: 400, // deaths within this distance count against a spawn
+  RECENT_DEATH_WINDOW_MS: 10000, // how long a death keeps counting against nearby spawns
+  RECENT_DEATH_PENALTY: 0.5, // score multiplier per recent nearby death
+  PROTECTION_MS: 3000, // how long a new spawn absorbs bullets, firing ends it early (0 turns it off)
+} as const;
+
+// ===== BOT CONFIGURATION =====
+// server-side bot chefs fill rooms that have at least one human player
+export const BOT_CONFIG = {
+  MIN_PLAYERS: 4, // bots join until humans and bots reach this count, and leave as humans join
+  ID_PREFIX: "bot_", // bot player ids start with this, real players use socket ids
+  NAMES: ["Remy", "Colette", "Linguini", "Gusteau", "Skinner", "Emile", "Horst", "Lalo"],
+  NAME_PREFIX: "[BOT] ",
+  DIFFICULTY: "normal", // preset used for new bots
+  // reaction: delay before firing at a newly spotted enemy
+  // spread: random aim error in radians, tracking: how fast the aim turns in radians per second
+  DIFFICULTIES: {
+    easy: { REACTION_MS: 900, AIM_SPREAD: 0.35, TRACKING_SPEED: 2.5 },
+    normal: { REACTION_MS: 500, AIM_SPREAD: 0.18, TRACKING_SPEED: 5 },
+    hard: { REACTION_MS: 250, AIM_SPREAD: 0.06, TRACKING_SPEED: 10 },
+  },
+  FIRE_ANGLE: 0.2, // bots only shoot when their aim is this close to the target (radians)
+  SIGHT_RANGE: 1400, // enemies farther than this are hunted by pathfinding instead of shot at
+  PREFERRED_RANGE: 450, // bots stop closing in and strafe once this close to a visible target
+  STRAFE_SWITCH_MS: 1200, // how often strafing bots change direction
+  PATH_REFRESH_MS: 750, // how often bots recompute their path to a moving goal
+  WAYPOINT_RADIUS: 24, // distance at which a path waypoint counts as reached
+  RESPAWN_DELAY_MS: 3000, // time a dead bot waits before spawning again
+} as const;
+
+// ===== GAME MODE CONFIGURATION =====
+export const MODE_CONFIG = {
+  DEFAULT_MODE: "ffa", // mode a new room starts in
+  TEAMS: ["red", "blue"], // team ids for team modes, matching map spawn "team" properties
+  TEAM_NAMES: { red: "Red Kitchen", blue: "Blue Kitchen" },
+  TEAM_COLORS: { red: 0xff6b6b, blue: 0x4dabf7 }, // sprite tints
+} as const;
+
+// ===== HEALTH AND ARMOR CONFIGURATION =====
+// rule presets modes pick from in MODE_REGISTRY, null turns a rule off for that mode
+export const VITALS_CONFIG = {
+  REGENERATION: {
+    DELAY_MS: 5000, // time without taking damage before health starts coming back
+    PER_SECOND: 10, // health regained per second, up to PLAYER_HEALTH
+  },
+  ARMOR: {
+    MAX: 100, // most armor a player can carry
+    ABSORB_FRACTION: 0.5, // share of each hit armor takes instead of health, until it runs out
+    ON_SPAWN: 0, // armor players spawn with
+  },
+} as const;
+
+// ===== GAME MODE REGISTRY =====
+// rooms move to the next mode each round, alongside the map rotation
+export const MODE_REGISTRY = {
+  ffa: {
+    NAME: "Free For All",
+    REGENERATION: VITALS_CONFIG.REGENERATION,
+    ARMOR: VITALS_CONFIG.ARMOR,
+  },
+  tdm: {
+    NAME: "Team Deathmatch",
+    FRIENDLY_FIRE_MULTIPLIER: 0, // damage dealt to teammates, 0 disables friendly fire
+    REGENERATION: VITALS_CONFIG.REGENERATION,
+    ARMOR: VITALS_CONFIG.ARMOR,
+  },
+  ctf: {
+    NAME: "Steal the Recipe",
+    FRIENDLY_FIRE_MULTIPLIER: 0,
+    SCORE_LIMIT: 3, // captures that win the round before time runs out
+    REGENERATION: VITALS_CONFIG.REGENERATION,
+    ARMOR: VITALS_CONFIG.ARMOR,
+  },
+  koth: {
+    NAME: "Hold the Kitchen",
+    TEAM_PLAY: false, // true splits players into teams that hold the zone together
+    FRIENDLY_FIRE_MULTIPLIER: 0, // only used with TEAM_PLAY
+    SCORE_LIMIT: 60, // points that win the round
+    TIME_LIMIT_MINUTES: null, // overrides GAME_DURATION_MINUTES, null plays until the score limit
+    REGENERATION: VITALS_CONFIG.REGENERATION,
+    ARMOR: VITALS_CONFIG.ARMOR,
+  },
+  br: {
+    NAME: "Last Chef Standing",
+    TIME_LIMIT_MINUTES: null, // the round ends when one chef is left
+    REGENERATION: null, // health only comes back from food
+    ARMOR: VITALS_CONFIG.ARMOR,
+  },
+  gun: {
+    NAME: "Chef's Ladder",
+    REGENERATION: VITALS_CONFIG.REGENERATION,
+    ARMOR: null, // every chef climbs the ladder on equal terms
+  },
+} as const;
+
+// ===== MATCH CONFIGURATION =====
+// every match is a best-of series of rounds in the room's mode, the map and mode rotate once it is decided
+export const MATCH_CONFIG = {
+  ROUNDS: 3, // rounds in a match, a side winning more than half of them takes it early
+  MIN_PLAYERS: 2, // players needed in the room before warmup ends
+  COUNTDOWN_MS: 5000, // players are frozen while a round counts down
+  ROUND_END_MS: 4000, // the round result is shown this long
+  INTERMISSION_MS: 10000, // break between rounds
+} as const;
+
+// ===== GUN GAME CONFIGURATION =====
+export const GUN_GAME_CONFIG = {
+  // weapons in the order players climb them, one kill per step
+  // a kill with the last weapon wins the round
+  LADDER: ["rifle", "shotgun", "sniper"],
+} as const;
+
+// ===== BATTLE ROYALE CONFIGURATION =====
+export const ROYALE_CONFIG = {
+  JOIN_WINDOW_MS: 30000, // players can still drop in this long after the first spawn, then it's one life each
+  HAZARD_NAME: "The Heat", // shown as the killer for zone deaths
+  // each phase waits, then shrinks the safe zone to a fraction of its starting radius
+  // players outside the zone take the phase's damage from the moment it starts shrinking
+  PHASES: [
+    { WAIT_MS: 30000, SHRINK_MS: 30000, RADIUS_FRACTION: 0.6, DAMAGE_PER_SECOND: 2 },
+    { WAIT_MS: 20000, SHRINK_MS: 25000, RADIUS_FRACTION: 0.35, DAMAGE_PER_SECOND: 5 },
+    { WAIT_MS: 15000, SHRINK_MS: 20000, RADIUS_FRACTION: 0.15, DAMAGE_PER_SECOND: 10 },
+    { WAIT_MS: 10000, SHRINK_MS: 15000, RADIUS_FRACTION: 0, DAMAGE_PER_SECOND: 20 },
+  ],
+} as const;
+
+// ===== KING OF THE HILL CONFIGURATION =====
+export const HILL_CONFIG = {
+  LAYER_NAME: "hills", // Tiled object layer holding rectangular hill zones
+  CAPTURE_MS: 3000, // time a side must stand alone in the zone to take it
+  POINT_INTERVAL_MS: 1000, // the holder scores a point this often while alone in the zone
+} as const;
+
+// ===== CAPTURE THE FLAG CONFIGURATION =====
+export const FLAG_CONFIG = {
+  LAYER_NAME: "flags", // Tiled object layer holding each team's recipe book base
+  SIZE: 56, // recipe book collision box in pixels
+  BASE_SIZE: 160, // area around the base center a carrier must reach to capture
+  RETURN_MS: 20000, // dropped recipe books go back to base if nobody touches them
+  ICON: "📖",
 } as const;
 
-// ===== SPAWN POINTS =====
-export const SPAWN_POINTS = [
-  [250, 2100],
-  [2650, 2100], 
-  [1450, 2100],
-  [1450, 250],
-  [1450, 3950]
-] as const;
+// ===== PICKUP CONFIGURATION =====
+export const PICKUP_CONFIG = {
+  LAYER_NAME: "pickups", // Tiled object layer holding pickup points
+  SIZE: 48, // pickup collision box in pixels
+  HEALTH_RESPAWN_MS: 20000,
+  AMMO_RESPAWN_MS: 15000,
+  WEAPON_RESPAWN_MS: 30000,
+  ARMOR_RESPAWN_MS: 25000,
+  AMMO_MAGAZINES: 2, // magazines added to every carried weapon's reserve by an ammo crate
+  AMMO_ICON: "🥫",
+  WEAPON_ICON: "🔪",
+  ARMOR_NAME: "Apron",
+  ARMOR_AMOUNT: 50, // armor an apron gives, up to the mode's ARMOR.MAX
+  ARMOR_ICON: "🦺",
+  DROP_WEAPON_ON_DEATH: true, // dead players drop their equipped weapon unless it is the default one
+  DROP_LIFETIME_MS: 15000, // dropped weapons disappear if nobody picks them up
+  // health packs, picked by the "item" property of a health pickup
+  HEALTH_ITEMS: {
+    apple: { NAME: "Apple", HEAL: 15, ICON: "🍎" },
+    burger: { NAME: "Burger", HEAL: 40, ICON: "🍔" },
+    cake: { NAME: "Cake", HEAL: 100, ICON: "🎂" },
+  },
+  DEFAULT_HEALTH_ITEM: "burger",
+} as const;
 
 // ===== DEFAULT STATS =====
 export const DEFAULT_STATS = {
@@ -127,6 +355,116 @@ export const DEFAULT_STATS = {
   shotsHit: 0,
   timeAlive: 0,
   gamesPlayed: 0,
+  longestStreak: 0,
+  assists: 0,
+  shutdowns: 0,
+} as const;
+
+// ===== ACHIEVEMENT CONSTANTS =====
+// an achievement unlocks on its EVENT when every stat in REQUIRES is at least the given value
+// kill stats: streak (kills this life), multikill, firstBlood (1 for the round's first kill)
+// round_end stats: kills, damageDealt, shotsFired and accuracy (percent) are match totals so far,
+// checked as each round ends, survivedRound and wonRound (1 or 0) are for the round just played
+export const ACHIEVEMENT_REGISTRY = {
+  first_kill: {
+    NAME: "Fresh Out of Culinary School",
+    DESCRIPTION: "Get your first kill",
+    ICON: "🍳",
+    EVENT: "kill",
+    REQUIRES: { streak: 1 },
+  },
+  first_blood: {
+    NAME: "First Blood",
+    DESCRIPTION: "Score the first kill of a round",
+    ICON: "🩸",
+    EVENT: "kill",
+    REQUIRES: { firstBlood: 1 },
+  },
+  double_kill: {
+    NAME: "Two Birds, One Skillet",
+    DESCRIPTION: "Get a double kill",
+    ICON: "🥚",
+    EVENT: "kill",
+    REQUIRES: { multikill: 2 },
+  },
+  full_course: {
+    NAME: "Full Course",
+    DESCRIPTION: "Chain 5 kills in quick succession",
+    ICON: "🍽️",
+    EVENT: "kill",
+    REQUIRES: { multikill: 5 },
+  },
+  cooking_spree: {
+    NAME: "Cooking Spree",
+    DESCRIPTION: "Get 5 kills in a single life",
+    ICON: "🔥",
+    EVENT: "kill",
+    REQUIRES: { streak: 5 },
+  },
+  master_chef: {
+    NAME: "Master Chef",
+    DESCRIPTION: "Get 15 kills in a single life",
+    ICON: "👨‍🍳",
+    EVENT: "kill",
+    REQUIRES: { streak: 15 },
+  },
+  survivor: {
+    NAME: "Slow Cooked",
+    DESCRIPTION: "Survive a full round without getting cooked",
+    ICON: "🛡️",
+    EVENT: "round_end",
+    REQUIRES: { survivedRound: 1 },
+  },
+  sharpshooter: {
+    NAME: "Sharpshooter",
+    DESCRIPTION: "End a round with 60% accuracy over at least 20 shots in the match",
+    ICON: "🎯",
+    EVENT: "round_end",
+    REQUIRES: { accuracy: 60, shotsFired: 20 },
+  },
+  head_chef: {
+    NAME: "Head Chef",
+    DESCRIPTION: "End a round with 20 kills in the match",
+    ICON: "🔪",
+    EVENT: "round_end",
+    REQUIRES: { kills: 20 },
+  },
+  chefs_kiss: {
+    NAME: "Chef's Kiss",
+    DESCRIPTION: "Win a round",
+    ICON: "🏅",
+    EVENT: "round_end",
+    REQUIRES: { wonRound: 1 },
+  },
+} as const;
+
+// ===== KILL STREAK CONSTANTS =====
+export const KILLSTREAK_CONFIG = {
+  MULTIKILL_WINDOW_MS: 4000, // kills within this long of the previous one chain into a multikill
+  // named streaks, by kills in one life
+  STREAKS: {
+    3: "On Fire",
+    5: "Cooking Spree",
+    7: "Unstoppable Chef",
+    10: "Kitchen Nightmare",
+    15: "Master Chef",
+  },
+  // named multikills, by kills in the chain (longer chains keep the last name)
+  MULTIKILLS: {
+    2: "Double Kill",
+    3: "Triple Kill",
+    4: "Quad Kill",
+    5: "Full Course",
+  },
+  ANNOUNCE_STREAK: 5, // streaks from this long are announced to the whole room
+  ANNOUNCE_MULTIKILL: 3, // multikills from this many kills are announced to the whole room
+  SHUTDOWN_STREAK: 3, // ending a streak at least this long is credited to the killer
+} as const;
+
+// ===== ASSIST CONSTANTS =====
+export const ASSIST_CONFIG = {
+  MIN_DAMAGE: 30, // damage a player must have dealt to the victim to earn an assist
+  WINDOW_MS: 10000, // their latest hit must have landed this recently before the kill
 } as const;
 
 // ===== AUTHENTICATION CONSTANTS =====
@@ -154,6 +492,24 @@ export const CALCULATED_VALUES = {
   GAME_DURATION_SECONDS: GAME_CONFIG.GAME_DURATION_MINUTES * 60,
 } as const;
 
+// ===== MAP CONFIGURATION =====
+export const MAP_CONFIG = {
+  DEFAULT_MAP: "simple_1v1_map", // .tmx file in src/tilesets (without extension)
+  COLLISION_PROPERTY: "collides", // tile property marking a tile as a wall
+  WALL_OFFSET: 8, // collision boxes sit this many pixels right/down of the drawn tile
+} as const;
+
+// ===== MAP REGISTRY =====
+// maps in rotation order, keyed by .tmx file name
+export const MAP_REGISTRY = {
+  simple_1v1_map: {
+    NAME: "Kitchen Clash",
+  },
+  map: {
+    NAME: "Open Pantry",
+  },
+} as const;
+
 // ===== SERVER CONFIGURATION =====
 export const SERVER_CONFIG = {
   PORT: process.env.PORT || 8080,
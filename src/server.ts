@@ -9,19 +9,23 @@ dotenv.config();
 import express, { Request, Response } from "express";
 import { createServer } from "http";
 import { Server, Socket } from "socket.io";
-import crypto from "crypto";
 
 // Constants import
 import { 
   GAME_CONFIG, 
   SERVER_CONFIG, 
-  AMMO_CONFIG,
+  WEAPON_CONFIG,
+  WEAPON_REGISTRY,
+  PICKUP_CONFIG,
+  FLAG_CONFIG,
   VISUAL_CONFIG,
   NOTIFICATION_COLORS,
   RENDERING_CONFIG,
-  SPAWN_POINTS,
   DEFAULT_STATS,
-  CALCULATED_VALUES
+  CALCULATED_VALUES,
+  MAP_CONFIG,
+  MODE_CONFIG,
+  GUN_GAME_CONFIG
 } from "./constants.js";
 
 // Redis service import
@@ -41,7 +45,7 @@ import {
 } from "./services/redis.js";
 
 // Supabase and user session imports
-import { initSupabase, getLeaderboard } from "./services/supabase.js";
+import { initSupabase, getLeaderboard, getUserAchievements, syncAchievementCatalogue } from "./services/supabase.js";
 import { 
   registerAuthenticatedUser, 
   unregisterUser, 
@@ -55,10 +59,50 @@ import { saveEndGameStats } from "./services/stats-persistence.js";
 import {
   bulletWallCollisions,
   bulletPlayerCollisions,
+  handlePlayerDeath,
+  createBulletIndex,
+  createPlayerIndex,
+  findBulletImpacts,
   determinePlayerMovement,
   updateBulletPosition,
 } from "./backend/physics.js";
-import { bestSpawnPoint } from "./backend/spawn.js";
+import { bestSpawnPoint, endSpawnProtection, protectSpawn, recordDeathLocation, updateSpawnProtection } from "./backend/spawn.js";
+import { equipSpawnArmor, regenerateHealth } from "./backend/vitals.js";
+import { queuePlayerInput, collectTickInputs, clearPlayerInput } from "./backend/simulation.js";
+import { recordPositionHistory } from "./backend/lag-compensation.js";
+import { consumeAmmo, startReload, updateReload } from "./backend/ammo.js";
+import { createLoadout, createProjectiles, getEquippedAmmo, getWeapon, switchWeapon } from "./backend/weapons.js";
+import { createMapPickups, updatePickups, collectPickups, dropWeapon, getPickupName } from "./backend/pickups.js";
+import { getGameMode, changeMode, restartMode, getNextModeId, getModeSummary, isRoundOver, getTimeLimitSeconds } from "./backend/game-modes.js";
+import {
+  createMatch,
+  isPlaying,
+  isLive,
+  isPhaseOver,
+  isMatchDecided,
+  getPlayersNeeded,
+  startCountdown,
+  returnToWarmup,
+  startRound,
+  endRound,
+  startIntermission,
+  getMatchSummary,
+} from "./backend/match.js";
+import { assignTeam, removeFromTeam } from "./backend/teams.js";
+import { balanceBots, isBot, updateBots } from "./backend/bots.js";
+import { addSpectator, getSpectatorCount, isSpectator, removeSpectator } from "./backend/spectators.js";
+import {
+  createAchievementState,
+  getAchievementCatalogue,
+  startAchievementRound,
+  checkRoundAchievements,
+  drainAchievementUnlocks,
+  loadSessionAchievements,
+  clearSessionAchievements
+} from "./backend/achievements.js";
+import { createSpatialHash, insertIntoSpatialHash } from "./backend/spatial-hash.js";
+import { loadMap } from "./backend/map-loader.js";
+import { getMapIds, getNextMapId } from "./backend/map-registry.js";
 import { setupAuth } from "./backend/auth.js";
 import {
   createPlayerWithStats,
@@ -77,7 +121,11 @@ import type {
   GameState,
   PlayerBounds,
   BulletData,
+  BulletImpact,
   WallData,
+  MapData,
+  SpatialHash,
+  SpatialItem,
   RoomEmitter
 } from "./types/game.js";
 
@@ -90,18 +138,63 @@ const games: Record<string, GameState> = {};
  */
 function getGame(roomId: string): GameState {
   if (!games[roomId]) {
+    const map = loadMap(MAP_CONFIG.DEFAULT_MAP);
     games[roomId] = {
       players: {},
       bullets: {},
-      walls: {},
+      walls: { ...map.walls },
       lastPlayersShotTime: {},
+      mapId: map.id,
+      modeId: MODE_CONFIG.DEFAULT_MODE,
+      teams: {},
+      teamScores: {},
+      playerScores: {},
+      recentDeaths: [],
+      inputQueue: {},
+      inputBudget: {},
+      positionHistory: {},
+      wallIndex: createWallIndex(map),
+      pickups: createMapPickups(map),
+      flags: {},
+      hill: null,
+      royale: null,
+      match: createMatch(),
+      bots: {},
+      spectators: {},
+      achievements: createAchievementState(),
       gameEnded: false,
       // gameStats now stored in Redis
     };
+    changeMode(games[roomId], MODE_CONFIG.DEFAULT_MODE);
   }
   return games[roomId];
 }
 
+/**
+ * switches a room to another map, replacing its walls and pickups
+ */
+function changeMap(game: GameState, mapId: string): MapData {
+  const map = loadMap(mapId);
+  game.mapId = map.id;
+  game.walls = { ...map.walls };
+  game.wallIndex = createWallIndex(map);
+  game.pickups = createMapPickups(map);
+  game.positionHistory = {};
+  game.recentDeaths = [];
+  return map;
+}
+
+/**
+ * builds the spatial index for a map's walls (done once per map change)
+ */
+function createWallIndex(map: MapData): SpatialHash<WallData> {
+  const wallIndex = createSpatialHash<WallData>();
+  for (const wall of Object.values(map.walls)) {
+    insertIntoSpatialHash(wallIndex, wall);
+  }
+  return wallIndex;
+}
+
 /**
  * creates player bounds object for collision detection (optimized to reuse object)
  */
@@ -115,148 +208,276 @@ function updatePlayerBounds(serverPlayer: ServerPlayer): PlayerBounds {
   return reusableBounds;
 }
 
-/**
- * creates a new bullet object
- */
-function createBullet(serverPlayer: ServerPlayer, clientInput: ClientPlayerInput): BulletData {
-  const bulletAngle = clientInput.rotation - Math.PI / 2;
-  const spread = (Math.random() - 0.5) * GAME_CONFIG.BULLET_SPREAD;
-  
-  return {
-    id: crypto.randomUUID(),
-    parent_id: clientInput.id,
-    parent_username: clientInput.username,
-    x: serverPlayer.x + GAME_CONFIG.PLAYER_SIZE / 2 + Math.cos(bulletAngle) * GAME_CONFIG.BULLET_OFFSET,
-    y: serverPlayer.y + GAME_CONFIG.PLAYER_SIZE / 2 + Math.sin(bulletAngle) * GAME_CONFIG.BULLET_OFFSET,
-    width: GAME_CONFIG.BULLET_WIDTH,
-    height: GAME_CONFIG.BULLET_HEIGHT,
-    rotation: bulletAngle - spread,
-  };
-}
-
 /**
  * handles player respawn logic
+ * team modes place the player on a balanced team and prefer that team's spawns
  */
-async function handlePlayerRespawn(players: Record<string, ServerPlayer>, clientInput: ClientPlayerInput, roomId: string): Promise<ServerPlayer> {
-  const [x, y] = bestSpawnPoint(players);
+async function handlePlayerRespawn(game: GameState, playerId: string, username: string, rotation: number, roomId: string): Promise<ServerPlayer> {
+  const mode = getGameMode(game.modeId);
+  const team = mode.teams ? assignTeam(game, playerId) : null;
+  const [x, y] = bestSpawnPoint(game, loadMap(game.mapId).spawnPoints, playerId, team);
   const newPlayer = createPlayerWithStats(
-    clientInput.id,
-    clientInput.username,
+    playerId,
+    username,
     x,
     y,
-    clientInput.rotation,
+    rotation,
     GAME_CONFIG.PLAYER_HEALTH
   );
-  players[clientInput.id] = newPlayer;
+  newPlayer.team = team;
+  protectSpawn(newPlayer);
+  equipSpawnArmor(newPlayer, mode.armor);
+  game.players[playerId] = newPlayer;
+  game.positionHistory[playerId] = [];
+  mode.onSpawn?.(game, newPlayer);
   
   // Initialize game stats in Redis for this player if not exists
   try {
-    await initializePlayerStats(roomId, clientInput.id, clientInput.username);
+    await initializePlayerStats(roomId, playerId, username);
   } catch (error) {
-    console.error(`❌ Failed to initialize player stats in Redis for ${clientInput.id}:`, error);
+    console.error(`❌ Failed to initialize player stats in Redis for ${playerId}:`, error);
   }
   
   return newPlayer;
 }
 
-/**
- * starts the game timer when the first player spawns
- */
-function startGameTimer(game: GameState): void {
-  if (!game.gameStartTime && !game.gameEnded) {
-    game.gameStartTime = Date.now();
-    console.log(`⏰ Game timer started for room`);
-  }
-}
-
 /**
  * gets the remaining time in seconds for a game
+ * modes that only end by score never run out (Infinity)
  */
 function getRemainingTime(game: GameState): number {
+  const totalTime = getTimeLimitSeconds(game) ?? Infinity;
   if (!game.gameStartTime || game.gameEnded) {
-    return GAME_CONFIG.GAME_DURATION_MINUTES * 60;
+    return totalTime;
   }
   
   const elapsed = (Date.now() - game.gameStartTime) / 1000;
-  const totalTime = GAME_CONFIG.GAME_DURATION_MINUTES * 60;
   return Math.max(0, totalTime - elapsed);
 }
 
 /**
- * checks if the game should end and handles game end logic
+ * tells the room about objective changes, such as a recipe book being stolen or captured
+ */
+function broadcastObjectiveChanges(roomEmitter: RoomEmitter, game: GameState, announcements: string[]): void {
+  if (announcements.length === 0) return;
+
+  for (const announcement of announcements) {
+    roomEmitter.emit("notification", announcement);
+  }
+  roomEmitter.emit("gameModeUpdate", getModeSummary(game));
+  roomEmitter.emit("flagsUpdate", game.flags);
+}
+
+/**
+ * moves the room's match to its next phase when the current one is over
+ * rounds end when time runs out, a side reaches the mode's score limit, or the mode's win condition is met
  */
-async function checkGameEnd(roomId: string, game: GameState, roomEmitter: RoomEmitter): Promise<void> {
+async function updateMatch(roomId: string, game: GameState, roomEmitter: RoomEmitter, now: number): Promise<void> {
+  const { match } = game;
   if (game.gameEnded) return;
-  
-  const remainingTime = getRemainingTime(game);
-  if (remainingTime <= 0) {
-    game.gameEnded = true;
-    game.gameEndTime = Date.now();
-    console.log(`🏁 Game ended for room ${roomId}`);
-    
-    try {
-      // Calculate final time alive for all players BEFORE saving to ensure accurate stats
-      if (game.gameStartTime && game.gameEndTime) {
-        console.log(`⏱️ Calculating final time alive for ${Object.keys(game.players).length} players`);
-        
-        // Update time alive for all currently alive players
-        for (const player of Object.values(game.players)) {
-          if (player.health > 0) {
-            const timeAliveThisLife = Math.floor((game.gameEndTime - player.sessionStartTime) / 1000);
-            console.log(`⏱️ Adding ${timeAliveThisLife}s time alive to player ${player.username} (${player.id})`);
-            await incrementPlayerStat(roomId, player.id, 'timeAlive', timeAliveThisLife);
-          }
-        }
+
+  switch (match.phase) {
+    case "warmup":
+      if (getPlayersNeeded(game) > 0) return;
+      startCountdown(match, now);
+      break;
+    case "countdown":
+      // the first round waits for players again if someone left during its countdown
+      if (match.round === 0 && getPlayersNeeded(game) > 0) {
+        returnToWarmup(match);
+        break;
       }
-      
-      // Get all player stats from Redis (after time calculations)
-      const finalStats = await getAllPlayerStats(roomId);
-      console.log(`📊 Retrieved final stats for ${finalStats.length} players from Redis`);
-      
-      // Save stats to Supabase for authenticated users
-      const playerSocketIds = Object.keys(game.players);
-      console.log(`📊 Attempting to save stats for players: [${playerSocketIds.join(', ')}]`);
-      
-      if (playerSocketIds.length > 0) {
-        try {
-          const saveResult = await saveEndGameStats(roomId, playerSocketIds);
-          console.log(`📊 Stats save result:`, JSON.stringify(saveResult, null, 2));
-        } catch (error) {
-          console.error(`❌ Failed to save stats to Supabase for room ${roomId}:`, error);
-        }
-      } else {
-        console.log(`📊 No players to save stats for in room ${roomId}`);
+      if (!isPhaseOver(match, now)) return;
+      await startLiveRound(roomId, game, roomEmitter, now);
+      break;
+    case "live":
+      if (getRemainingTime(game) > 0 && !isRoundOver(game, now)) return;
+      await finishRound(roomId, game, roomEmitter, now);
+      break;
+    case "round_end":
+      if (!isPhaseOver(match, now)) return;
+      // saving stats can be slow, so the room keeps ticking while the match ends
+      if (isMatchDecided(match)) {
+        endMatch(roomId, game, roomEmitter);
+        return;
       }
-      
-      // Send game end event with comprehensive stats (by socket ID)
-      roomEmitter.emit("gameEnded", {
-        finalStats: finalStats
-      });
-      
-      // Reset all players (health to 0 to trigger respawn)
-      Object.values(game.players).forEach(player => {
-        player.health = 0;
-      });
-      
-      // Reset game state and clear Redis for next round
-      setTimeout(async () => {
-        await resetGameState(roomId, game);
-      }, 1000); // Small delay to ensure game-ended screen shows first
-      
+      startIntermission(match, now);
+      break;
+    case "intermission":
+      if (!isPhaseOver(match, now)) return;
+      startCountdown(match, now);
+      break;
+  }
+
+  roomEmitter.emit("matchUpdate", getMatchSummary(game, now));
+}
+
+/**
+ * starts a round: fresh scores, objectives and pickups, with every living player moved to a spawn point
+ * warmup stats are cleared when the first round starts so they never reach the database
+ */
+async function startLiveRound(roomId: string, game: GameState, roomEmitter: RoomEmitter, now: number): Promise<void> {
+  const firstRound = game.match.round === 0;
+  startRound(game.match);
+  game.gameStartTime = now;
+  game.bullets = {};
+  game.lastPlayersShotTime = {};
+  game.recentDeaths = [];
+  game.pickups = createMapPickups(loadMap(game.mapId));
+  const mode = restartMode(game);
+  console.log(`⏰ Round ${game.match.round} of ${mode.name} started in room ${roomId}`);
+
+  if (firstRound) {
+    try {
+      await clearRoomStats(roomId);
     } catch (error) {
-      console.error(`❌ Error ending game for room ${roomId}:`, error);
-      
-      // Fallback: send empty stats
-      roomEmitter.emit("gameEnded", {
-        finalStats: []
-      });
-      
-      // Still reset the game state
-      setTimeout(async () => {
-        await resetGameState(roomId, game);
-      }, 1000);
+      console.error(`❌ Failed to clear warmup stats for room ${roomId}:`, error);
     }
   }
+
+  for (const player of Object.values(game.players)) {
+    if (player.health <= 0) {
+      // dead players keep their Redis entry so they appear in the final stats
+      if (firstRound) {
+        await initializePlayerStats(roomId, player.id, player.username).catch(error => {
+          console.error(`❌ Failed to initialize player stats in Redis for ${player.id}:`, error);
+        });
+      }
+      continue;
+    }
+
+    const respawned = await handlePlayerRespawn(game, player.id, player.username, player.rotation, roomId);
+    respawned.lastProcessedInput = player.lastProcessedInput;
+    io.to(player.id).emit("clientUpdateSelf", respawned);
+  }
+  startAchievementRound(game);
+
+  roomEmitter.emit("pickupsUpdate", game.pickups);
+  roomEmitter.emit("gameModeUpdate", getModeSummary(game));
+  roomEmitter.emit("flagsUpdate", game.flags);
+  roomEmitter.emit("hillUpdate", game.hill);
+  roomEmitter.emit("royaleUpdate", game.royale);
+}
+
+/**
+ * ends the live round, awarding it and banking the time survivors spent alive
+ */
+async function finishRound(roomId: string, game: GameState, roomEmitter: RoomEmitter, now: number): Promise<void> {
+  endRound(game, now);
+  game.bullets = {};
+  console.log(`🏁 Round ${game.match.round} ended for room ${roomId}`);
+
+  const winner = getMatchSummary(game, now).roundWinner;
+  roomEmitter.emit("notification", winner ? `${winner} wins round ${game.match.round}!` : `Round ${game.match.round} is a draw`);
+
+  // survivors are held in place until the next round, so their time alive stops here
+  for (const player of Object.values(game.players)) {
+    if (player.health <= 0) continue;
+
+    const timeAliveThisLife = Math.floor((now - player.sessionStartTime) / 1000);
+    player.sessionStartTime = now;
+    try {
+      await incrementPlayerStat(roomId, player.id, 'timeAlive', timeAliveThisLife);
+    } catch (error) {
+      console.error(`❌ Failed to update time alive for ${player.id}:`, error);
+    }
+  }
+
+  checkRoundAchievements(game, roomId, await getAllPlayerStats(roomId));
+}
+
+/**
+ * removes a player who left the room (or a bot that is no longer needed)
+ */
+function removePlayer(roomId: string, game: GameState, playerId: string): void {
+  const player = game.players[playerId];
+  const mode = getGameMode(game.modeId);
+  delete game.players[playerId];
+  if (player && mode.onPlayerRemoved) {
+    broadcastObjectiveChanges(io.to(roomId), game, mode.onPlayerRemoved(game, player, Date.now()));
+  }
+  delete game.lastPlayersShotTime[playerId];
+  delete game.positionHistory[playerId];
+  removeFromTeam(game, playerId);
+  clearPlayerInput(game, playerId);
+  io.to(roomId).emit("matchUpdate", getMatchSummary(game, Date.now()));
+
+  // Remove player from Redis immediately
+  removePlayerStats(roomId, playerId).catch(error => {
+    console.error(`❌ Failed to remove player ${playerId} from Redis:`, error);
+  });
+}
+
+/**
+ * tops the room up with bots (or sends them home) after a human joins, leaves, or starts or stops spectating
+ */
+function balanceRoomBots(roomId: string, game: GameState): void {
+  // spectators stay in the socket room to receive updates but are not playing
+  const socketCount = io.sockets.adapter.rooms.get(roomId)?.size ?? 0;
+  const humanCount = Math.max(socketCount - getSpectatorCount(game), 0);
+  for (const botId of balanceBots(game, humanCount, Date.now())) {
+    removePlayer(roomId, game, botId);
+  }
+}
+
+/**
+ * ends the match: saves stats, shows everyone the game-ended screen, then rotates the map and mode
+ */
+async function endMatch(roomId: string, game: GameState, roomEmitter: RoomEmitter): Promise<void> {
+  game.gameEnded = true;
+  game.gameEndTime = Date.now();
+  console.log(`🏁 Match ended for room ${roomId}`);
+  
+  try {
+    // Get all player stats from Redis (time alive was banked when the last round ended)
+    const finalStats = await getAllPlayerStats(roomId);
+    console.log(`📊 Retrieved final stats for ${finalStats.length} players from Redis`);
+    
+    // Save stats to Supabase for authenticated users, bots are never persisted
+    const playerSocketIds = Object.keys(game.players).filter(playerId => !isBot(game, playerId));
+    console.log(`📊 Attempting to save stats for players: [${playerSocketIds.join(', ')}]`);
+    
+    if (playerSocketIds.length > 0) {
+      try {
+        const saveResult = await saveEndGameStats(roomId, playerSocketIds);
+        console.log(`📊 Stats save result:`, JSON.stringify(saveResult, null, 2));
+      } catch (error) {
+        console.error(`❌ Failed to save stats to Supabase for room ${roomId}:`, error);
+      }
+    } else {
+      console.log(`📊 No players to save stats for in room ${roomId}`);
+    }
+    
+    // Send game end event with comprehensive stats (by socket ID)
+    roomEmitter.emit("gameEnded", {
+      finalStats: finalStats,
+      mode: getModeSummary(game)
+    });
+    
+    // Reset all players (health to 0 to trigger respawn)
+    Object.values(game.players).forEach(player => {
+      player.health = 0;
+    });
+    
+    // Reset game state and clear Redis for the next match
+    setTimeout(async () => {
+      await resetGameState(roomId, game);
+    }, 1000); // Small delay to ensure game-ended screen shows first
+    
+  } catch (error) {
+    console.error(`❌ Error ending game for room ${roomId}:`, error);
+    
+    // Fallback: send empty stats
+    roomEmitter.emit("gameEnded", {
+      finalStats: [],
+      mode: getModeSummary(game)
+    });
+    
+    // Still reset the game state
+    setTimeout(async () => {
+      await resetGameState(roomId, game);
+    }, 1000);
+  }
 }
 
 /**
@@ -279,14 +500,31 @@ function cleanupInactiveRooms(): void {
 }
 
 /**
- * resets game state for a new game
+ * resets game state for a new match, starting with warmup
  */
 async function resetGameState(roomId: string, game: GameState): Promise<void> {
   game.gameStartTime = undefined;
   game.gameEndTime = undefined;
   game.gameEnded = false;
+  game.match = createMatch();
   game.bullets = {};
   game.lastPlayersShotTime = {};
+  game.positionHistory = {};
+  
+  // Rotate to the next map and let clients rebuild their tile layer
+  const map = changeMap(game, getNextMapId(game.mapId));
+  io.to(roomId).emit("mapChanged", map);
+  io.to(roomId).emit("pickupsUpdate", game.pickups);
+  console.log(`🗺️ Room ${roomId} rotated to map ${map.name} (${map.id})`);
+
+  // Rotate to the next game mode, teams are reassigned as players respawn
+  const mode = changeMode(game, getNextModeId(game.modeId, map));
+  io.to(roomId).emit("gameModeUpdate", getModeSummary(game));
+  io.to(roomId).emit("flagsUpdate", game.flags);
+  io.to(roomId).emit("hillUpdate", game.hill);
+  io.to(roomId).emit("royaleUpdate", game.royale);
+  io.to(roomId).emit("matchUpdate", getMatchSummary(game, Date.now()));
+  console.log(`🎮 Room ${roomId} rotated to mode ${mode.name} (${mode.id})`);
   
   // Clear Redis stats for this room
   try {
@@ -300,26 +538,34 @@ async function resetGameState(roomId: string, game: GameState): Promise<void> {
 
 /**
  * handles player shooting logic with optimized cooldown check
+ * shots use the equipped weapon's cooldown and are only fired if its magazine has a round
  */
 async function handlePlayerShooting(
   clientInput: ClientPlayerInput,
   serverPlayer: ServerPlayer,
   bullets: Record<string, BulletData>,
   lastPlayersShotTime: Record<string, number>,
-  roomEmitter: RoomEmitter,
   roomId: string
 ): Promise<void> {
   if (!clientInput.mb1) return;
 
   const now = Date.now();
   const lastShotTime = lastPlayersShotTime[clientInput.id];
+  const weapon = getWeapon(serverPlayer.weaponId);
   
-  if (!lastShotTime || now - lastShotTime >= GAME_CONFIG.SHOOTING_COOLDOWN) {
+  if (!lastShotTime || now - lastShotTime >= weapon.COOLDOWN_MS) {
+    if (!consumeAmmo(getEquippedAmmo(serverPlayer))) return;
+
     lastPlayersShotTime[clientInput.id] = now;
-    const bullet = createBullet(serverPlayer, clientInput);
-    bullets[bullet.id] = bullet;
+    const projectiles = createProjectiles(serverPlayer, clientInput, now);
+    for (const projectile of projectiles) {
+      bullets[projectile.id] = projectile;
+    }
     
-    // record shot fired for stats
+    // firing gives up spawn protection
+    endSpawnProtection(serverPlayer);
+
+    // record shot fired for stats (one per trigger pull, not per pellet)
     recordShotFired(serverPlayer);
     
     // Update Redis stats
@@ -328,8 +574,247 @@ async function handlePlayerShooting(
     } catch (error) {
       console.error(`❌ Failed to update shotsFired stat for ${clientInput.id}:`, error);
     }
-    
-    roomEmitter.emit("clientUpdateNewBullet", bullet);
+  }
+}
+
+/**
+ * creates the placeholder state sent to a player who cannot respawn yet
+ */
+function createInactivePlayerState(clientInput: ClientPlayerInput): ServerPlayer {
+  return {
+    id: clientInput.id,
+    username: clientInput.username,
+    x: 0,
+    y: 0,
+    rotation: 0,
+    health: 0,
+    team: null,
+    carryingFlag: null,
+    spawnProtected: false,
+    spawnProtectedUntil: 0,
+    armor: 0,
+    lastDamageTime: 0,
+    weaponId: WEAPON_CONFIG.DEFAULT_WEAPON,
+    weapons: createLoadout(),
+    stats: { kills: 0, deaths: 0, damageDealt: 0, shotsFired: 0, shotsHit: 0, timeAlive: 0, gamesPlayed: 0, longestStreak: 0, assists: 0, shutdowns: 0 },
+    sessionStartTime: Date.now(),
+    lastProcessedInput: clientInput.sequence,
+    killStreak: 0,
+    multiKill: 0,
+    lastKillTime: null,
+    damageTaken: {}
+  };
+}
+
+/**
+ * advances a room by one fixed simulation tick
+ * applies every queued player input once in sequence order, moves bullets, then resolves collisions
+ */
+async function simulateRoomTick(roomId: string, game: GameState): Promise<void> {
+  const { players, bullets, wallIndex, lastPlayersShotTime } = game;
+  updateBots(game, Date.now());
+  const tickInputs = collectTickInputs(game);
+
+  // nothing to simulate in an empty room
+  if (tickInputs.length === 0 && Object.keys(players).length === 0) return;
+
+  const roomEmitter = io.to(roomId);
+  const tickTime = Date.now();
+  const updatedPlayerIds = new Set<string>();
+  const mode = getGameMode(game.modeId);
+
+  // respawn collected pickups and expire old weapon drops
+  let pickupsChanged = updatePickups(game, tickTime);
+
+  // apply player input, each queued input once and in order
+  for (const clientInput of tickInputs) {
+    const playerEmitter = io.to(clientInput.id);
+    let serverPlayer = players[clientInput.id];
+
+    // input that arrived after a later one was already applied is too late to use
+    if (serverPlayer && serverPlayer.health > 0 && clientInput.sequence <= serverPlayer.lastProcessedInput) continue;
+
+    // handle respawn if player is dead or doesn't exist
+    if (!serverPlayer || serverPlayer.health <= 0) {
+      // Don't allow respawn if game has ended
+      if (game.gameEnded) {
+        playerEmitter.emit("clientUpdateSelf", serverPlayer || createInactivePlayerState(clientInput));
+        continue;
+      }
+
+      // elimination modes keep knocked out and late players watching until the next round
+      if (isLive(game.match) && mode.canSpawn && !mode.canSpawn(game, clientInput.id, tickTime)) {
+        if (!isBot(game, clientInput.id)) {
+          playerEmitter.emit("spectating", { reason: `You're out of this round of ${mode.name}` });
+        }
+        continue;
+      }
+
+      const joinedMatch = !serverPlayer;
+      serverPlayer = await handlePlayerRespawn(game, clientInput.id, clientInput.username, clientInput.rotation, roomId);
+
+      // Reset session start time for new life
+      serverPlayer.sessionStartTime = Date.now();
+      serverPlayer.lastProcessedInput = clientInput.sequence;
+
+      playerEmitter.emit("clientUpdateSelf", serverPlayer);
+      playerEmitter.emit("pickupsUpdate", game.pickups);
+      playerEmitter.emit("flagsUpdate", game.flags);
+
+      // warmup banners count the players still needed
+      if (joinedMatch) {
+        roomEmitter.emit("matchUpdate", getMatchSummary(game, tickTime));
+      }
+      continue;
+    }
+
+    // If game has ended, don't process normal gameplay actions
+    if (game.gameEnded) {
+      // Keep player frozen at their last position with 0 health
+      serverPlayer.health = 0;
+      playerEmitter.emit("clientUpdateSelf", serverPlayer);
+      continue;
+    }
+
+    // countdowns, round results and intermissions hold everyone in place
+    if (!isPlaying(game.match)) {
+      serverPlayer.lastProcessedInput = clientInput.sequence;
+      playerEmitter.emit("clientUpdateSelf", serverPlayer);
+      continue;
+    }
+
+    // update server player rotation from client input
+    serverPlayer.rotation = clientInput.rotation;
+
+    // switch weapons before anything uses the equipped weapon
+    if (clientInput.weaponSwitch) {
+      switchWeapon(serverPlayer, clientInput.weaponSwitch);
+    }
+
+    // start a reload if requested, it finishes in the per-tick loop below even without further input
+    if (clientInput.reload) {
+      startReload(getEquippedAmmo(serverPlayer), getWeapon(serverPlayer.weaponId), tickTime);
+    }
+
+    // handle shooting
+    await handlePlayerShooting(clientInput, serverPlayer, bullets, lastPlayersShotTime, roomId);
+
+    // apply movement against walls
+    determinePlayerMovement(serverPlayer, updatePlayerBounds(serverPlayer), clientInput, wallIndex, GAME_CONFIG.PHYSICS_DELTA_TIME);
+    updatedPlayerIds.add(clientInput.id);
+
+    // pick up anything the player walked over
+    for (const pickup of collectPickups(game, serverPlayer, tickTime)) {
+      pickupsChanged = true;
+      playerEmitter.emit("notification", `Picked up ${getPickupName(pickup)}`);
+    }
+
+    // acknowledge the input so the client can drop it from its replay buffer
+    serverPlayer.lastProcessedInput = clientInput.sequence;
+  }
+
+  // advance objectives such as recipe books, the hill and the safe zone after everyone has moved
+  if (mode.onTick && isPlaying(game.match)) {
+    broadcastObjectiveChanges(roomEmitter, game, mode.onTick(game, tickTime));
+  }
+
+  // keep the hill capture progress and the safe zone on every client current
+  if (game.hill) {
+    roomEmitter.emit("hillUpdate", game.hill);
+  }
+  if (game.royale) {
+    roomEmitter.emit("royaleUpdate", game.royale);
+  }
+
+  // record where every living player is this tick for lag-compensated hits, wear off spawn shields, finish reloads and regenerate health
+  for (const serverPlayer of Object.values(players)) {
+    if (serverPlayer.health <= 0) continue;
+    updateSpawnProtection(serverPlayer, tickTime);
+    if (updateReload(getEquippedAmmo(serverPlayer), getWeapon(serverPlayer.weaponId), tickTime)) {
+      updatedPlayerIds.add(serverPlayer.id);
+    }
+    regenerateHealth(serverPlayer, mode.regeneration, tickTime);
+    if (!game.positionHistory[serverPlayer.id]) {
+      game.positionHistory[serverPlayer.id] = [];
+    }
+    recordPositionHistory(game.positionHistory[serverPlayer.id], serverPlayer, tickTime);
+  }
+
+  // advance bullets and find the first wall or player each one swept through
+  // players and bullets move every tick, so their indexes are rebuilt rather than updated
+  let bulletImpacts: Record<string, BulletImpact> = {};
+  let bulletIndex = createSpatialHash<SpatialItem>();
+  updateBulletPosition(roomEmitter, bullets, GAME_CONFIG.PHYSICS_DELTA_TIME, tickTime);
+  if (Object.keys(bullets).length > 0) {
+    bulletIndex = createBulletIndex(bullets);
+    const playerIndex = createPlayerIndex(players, game.positionHistory);
+    bulletImpacts = findBulletImpacts(bullets, wallIndex, playerIndex, players, game.positionHistory, tickTime);
+    bulletWallCollisions(bullets, bulletImpacts);
+  }
+
+  // resolve bullet hits against every living player, nobody can be hurt while the match is paused
+  for (const serverPlayer of Object.values(players)) {
+    if (serverPlayer.health <= 0 || !isPlaying(game.match)) continue;
+
+    await bulletPlayerCollisions(roomEmitter, io.to(serverPlayer.id), bullets, bulletIndex, game, serverPlayer, bulletImpacts, roomId);
+
+    // environmental damage such as the battle royale zone, nobody gets the kill
+    // it ignores armor but still holds off regeneration
+    if (serverPlayer.health > 0 && mode.getHazardDamage) {
+      const hazardDamage = mode.getHazardDamage(game, serverPlayer, tickTime);
+      if (hazardDamage > 0) {
+        serverPlayer.health -= hazardDamage;
+        serverPlayer.lastDamageTime = tickTime;
+      }
+      if (serverPlayer.health <= 0) {
+        const hazardName = mode.hazardName ?? "The Kitchen";
+        await handlePlayerDeath(roomEmitter, io.to(serverPlayer.id), game, serverPlayer, undefined, hazardName, hazardName, roomId);
+        roomEmitter.emit("notification", `${serverPlayer.username} was taken out by ${hazardName}`);
+      }
+    }
+
+    // a dead player must click spawn again, so drop their held input
+    if (serverPlayer.health <= 0) {
+      clearPlayerInput(game, serverPlayer.id);
+      recordDeathLocation(game, serverPlayer, tickTime);
+      if (dropWeapon(game, serverPlayer, tickTime)) {
+        pickupsChanged = true;
+      }
+      if (mode.onPlayerRemoved) {
+        broadcastObjectiveChanges(roomEmitter, game, mode.onPlayerRemoved(game, serverPlayer, tickTime));
+      }
+    }
+  }
+
+  // let clients show collected, respawned and dropped pickups
+  if (pickupsChanged) {
+    roomEmitter.emit("pickupsUpdate", game.pickups);
+  }
+
+  // send updated player state back to each client that was simulated
+  for (const playerId of updatedPlayerIds) {
+    const serverPlayer = players[playerId];
+    if (serverPlayer && serverPlayer.health > 0) {
+      io.to(playerId).emit("clientUpdateSelf", serverPlayer);
+    }
+  }
+
+  // broadcast enemy positions to all clients, stamped for client-side interpolation
+  if (Object.keys(players).length > 0) {
+    roomEmitter.emit("clientUpdateAllEnemies", players, tickTime);
+
+    // move the match along, and keep the round timer current while a round is live
+    await updateMatch(roomId, game, roomEmitter, tickTime);
+    if (isLive(game.match)) {
+      // untimed modes send null so clients hide the countdown
+      const remainingTime = getRemainingTime(game);
+      roomEmitter.emit("timerUpdate", { remainingTime: Number.isFinite(remainingTime) ? remainingTime : null });
+    }
+  }
+
+  // tell players about achievements they unlocked this tick
+  for (const { playerId, achievement } of drainAchievementUnlocks(game)) {
+    io.to(playerId).emit("achievementUnlocked", achievement);
   }
 }
 
@@ -359,12 +844,12 @@ app.get('/api/leaderboard', async (req: Request, res: Response): Promise<void> =
     console.log(`🏆 Leaderboard API called with metric: ${metric}, limit: ${limit}`);
     
     // Validate metric parameter
-    const validMetrics = ['kills', 'kdr', 'accuracy', 'time_alive'];
+    const validMetrics = ['kills', 'kdr', 'accuracy', 'time_alive', 'assists'];
     if (!validMetrics.includes(metric)) {
       console.warn(`❌ Invalid leaderboard metric requested: ${metric}`);
       res.status(400).json({
         success: false,
-        error: 'Invalid metric. Must be one of: kills, kdr, accuracy, time_alive'
+        error: 'Invalid metric. Must be one of: kills, kdr, accuracy, time_alive, assists'
       });
       return;
     }
@@ -412,6 +897,37 @@ app.get('/api/leaderboard', async (req: Request, res: Response): Promise<void> =
   }
 });
 
+// Achievements endpoint - the catalogue with a user's unlocks, public access like the leaderboard
+app.get('/api/users/:id/achievements', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const googleUserId = req.params.id;
+    const unlocks = await getUserAchievements(googleUserId);
+    const unlockedAt = new Map(unlocks.map(unlock => [unlock.achievement_id, unlock.unlocked_at ?? null]));
+
+    const achievements = getAchievementCatalogue().map(achievement => ({
+      ...achievement,
+      unlocked: unlockedAt.has(achievement.id),
+      unlockedAt: unlockedAt.get(achievement.id) ?? null
+    }));
+
+    res.json({
+      success: true,
+      data: achievements,
+      meta: {
+        unlocked: unlockedAt.size,
+        total: achievements.length
+      }
+    });
+  } catch (error) {
+    console.error('❌ Achievements API error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch achievements',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Constants endpoint - provides game constants to frontend
 app.get('/api/constants', (req: Request, res: Response): void => {
   try {
@@ -419,13 +935,17 @@ app.get('/api/constants', (req: Request, res: Response): void => {
       success: true,
       data: {
         GAME_CONFIG,
-        AMMO_CONFIG,
+        WEAPON_CONFIG,
+        WEAPON_REGISTRY,
+        PICKUP_CONFIG,
+        FLAG_CONFIG,
         VISUAL_CONFIG,
         NOTIFICATION_COLORS,
         RENDERING_CONFIG,
-        SPAWN_POINTS,
         DEFAULT_STATS,
-        CALCULATED_VALUES
+        CALCULATED_VALUES,
+        MODE_CONFIG,
+        GUN_GAME_CONFIG
       }
     });
   } catch (error) {
@@ -437,6 +957,23 @@ app.get('/api/constants', (req: Request, res: Response): void => {
   }
 });
 
+// Map endpoint - provides the tile layout and walls of a room's map
+app.get('/api/map', (req: Request, res: Response): void => {
+  try {
+    const game = games[req.query.room as string];
+    res.json({
+      success: true,
+      data: loadMap(game ? game.mapId : MAP_CONFIG.DEFAULT_MAP)
+    });
+  } catch (error) {
+    console.error('❌ Map API error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load map'
+    });
+  }
+});
+
 // ===== SOCKET.IO SERVER SETUP =====
 
 const server = createServer(app);
@@ -461,6 +998,47 @@ io.on("connection", (socket: Socket) => {
       console.log(`🔄 Resetting ended game for new player in room ${roomId}`);
       resetGameState(roomId, game);
     }
+
+    socket.emit("gameModeUpdate", getModeSummary(game));
+    socket.emit("flagsUpdate", game.flags);
+    socket.emit("hillUpdate", game.hill);
+    socket.emit("royaleUpdate", game.royale);
+    socket.emit("pickupsUpdate", game.pickups);
+    socket.emit("matchUpdate", getMatchSummary(game, Date.now()));
+    socket.emit("spectatorCount", getSpectatorCount(game));
+    balanceRoomBots(roomId, game);
+  });
+
+  /**
+   * handle a player choosing to watch the room instead of playing
+   * their player (if any) leaves the room, everything else keeps streaming to them
+   */
+  socket.on("joinSpectators", () => {
+    const roomId = socket.data.roomId as string;
+    if (!roomId) return;
+
+    const game = getGame(roomId);
+    if (isSpectator(game, socket.id)) return;
+
+    removePlayer(roomId, game, socket.id);
+    addSpectator(game, socket.id);
+    io.to(roomId).emit("spectatorCount", getSpectatorCount(game));
+    balanceRoomBots(roomId, game);
+    console.log(`👀 Socket ${socket.id} is spectating room ${roomId}`);
+  });
+
+  /**
+   * handle a spectator joining the game, their next input spawns them
+   */
+  socket.on("leaveSpectators", () => {
+    const roomId = socket.data.roomId as string;
+    if (!roomId) return;
+
+    const game = getGame(roomId);
+    if (removeSpectator(game, socket.id)) {
+      io.to(roomId).emit("spectatorCount", getSpectatorCount(game));
+      balanceRoomBots(roomId, game);
+    }
   });
 
   /**
@@ -472,6 +1050,9 @@ io.on("connection", (socket: Socket) => {
     if (validateUserInfo(userInfo)) {
       registerAuthenticatedUser(socket.id, userInfo);
       console.log(`✅ Socket ${socket.id} authenticated successfully as ${userInfo.name} (${userInfo.id})`);
+      loadSessionAchievements(socket.id, userInfo).catch(error => {
+        console.error(`❌ Failed to load achievements for ${userInfo.id}:`, error);
+      });
       socket.emit("authenticationConfirmed", { success: true });
     } else {
       console.warn(`⚠️ Socket ${socket.id} authentication failed - invalid user info:`, userInfo);
@@ -480,71 +1061,18 @@ io.on("connection", (socket: Socket) => {
   });
 
   /**
-   * handle player updates (movement, shooting, etc.) - optimized for efficiency
+   * handle player input (movement, shooting, etc.) - queued until the next simulation tick
    */
-  socket.on("serverUpdateSelf", async (clientInput: ClientPlayerInput) => {
+  socket.on("serverUpdateSelf", (clientInput: ClientPlayerInput) => {
     const roomId = socket.data.roomId as string;
     if (!roomId) return; // ignore if not in a room
 
+    // spectators watch without a player
     const game = getGame(roomId);
-    const { players, bullets, walls, lastPlayersShotTime } = game;
-    const roomEmitter = io.to(roomId);
+    if (isSpectator(game, socket.id)) return;
 
-    let serverPlayer = players[clientInput.id];
-
-    // handle respawn if player is dead or doesn't exist
-    if (!serverPlayer || serverPlayer.health <= 0) {
-      // Don't allow respawn if game has ended
-      if (game.gameEnded) {
-        socket.emit("clientUpdateSelf", serverPlayer || {
-          id: clientInput.id,
-          username: clientInput.username,
-          x: 0,
-          y: 0,
-          rotation: 0,
-          health: 0,
-          stats: { kills: 0, deaths: 0, damageDealt: 0, shotsFired: 0, shotsHit: 0, timeAlive: 0, gamesPlayed: 0 },
-          sessionStartTime: Date.now()
-        });
-        return;
-      }
-      
-      serverPlayer = await handlePlayerRespawn(players, clientInput, roomId);
-      
-      // Reset session start time for new life
-      serverPlayer.sessionStartTime = Date.now();
-      
-      // Start game timer when first player spawns
-      startGameTimer(game);
-      
-      socket.emit("clientUpdateSelf", serverPlayer);
-      return;
-    }
-
-    // If game has ended, don't process normal gameplay actions
-    if (game.gameEnded) {
-      // Keep player frozen at their last position with 0 health
-      serverPlayer.health = 0;
-      socket.emit("clientUpdateSelf", serverPlayer);
-      return;
-    }
-
-    // update server player rotation from client input
-    serverPlayer.rotation = clientInput.rotation;
-
-    // create player bounds for collision detection (reuses object for efficiency)
-    const playerBounds = updatePlayerBounds(serverPlayer);
-
-    // handle shooting
-    await handlePlayerShooting(clientInput, serverPlayer, bullets, lastPlayersShotTime, roomEmitter, roomId);
-
-    // apply physics and handle collisions
-    determinePlayerMovement(serverPlayer, playerBounds, clientInput, walls);
-    await bulletPlayerCollisions(roomEmitter, socket, bullets, players, clientInput, playerBounds, roomId);
-    bulletWallCollisions(walls, bullets);
-
-    // send updated player state back to client
-    socket.emit("clientUpdateSelf", serverPlayer);
+    // the socket id is authoritative, never the id claimed by the client
+    queuePlayerInput(game, { ...clientInput, id: socket.id });
   });
 
   /**
@@ -567,7 +1095,8 @@ io.on("connection", (socket: Socket) => {
         username: playerStat.username,
         kills: playerStat.kills,
         deaths: playerStat.deaths,
-        isDead: !game.players[playerStat.socketId] || game.players[playerStat.socketId].health <= 0
+        isDead: !game.players[playerStat.socketId] || game.players[playerStat.socketId].health <= 0,
+        team: game.teams[playerStat.socketId] ?? null
       }));
 
       // determine server region (simple implementation - can be enhanced)
@@ -578,9 +1107,11 @@ io.on("connection", (socket: Socket) => {
       
       socket.emit("realtimeLeaderboardData", {
         players: leaderboardData,
+        mode: getModeSummary(game),
         serverInfo: {
           region: serverRegion,
-          latency: latency
+          latency: latency,
+          spectators: getSpectatorCount(game)
         }
       });
     } catch (error) {
@@ -595,16 +1126,6 @@ io.on("connection", (socket: Socket) => {
     }
   });
 
-  /**
-   * handle wall addition (for level editing)
-   */
-  socket.on("addWall", (wallData: WallData) => {
-    const roomId = socket.data.roomId as string;
-    if (!roomId) return;
-    
-    getGame(roomId).walls[wallData.id] = wallData;
-  });
-
   /**
    * handle player disconnection
    */
@@ -614,54 +1135,40 @@ io.on("connection", (socket: Socket) => {
     if (!roomId) return;
 
     const game = getGame(roomId);
-    delete game.players[socket.id];
-    delete game.lastPlayersShotTime[socket.id];
-    
-    // Remove player from Redis immediately
-    removePlayerStats(roomId, socket.id).catch(error => {
-      console.error(`❌ Failed to remove player ${socket.id} from Redis on disconnect:`, error);
-    });
+    removePlayer(roomId, game, socket.id);
+    if (removeSpectator(game, socket.id)) {
+      io.to(roomId).emit("spectatorCount", getSpectatorCount(game));
+    }
+    balanceRoomBots(roomId, game);
     
-    // Unregister authenticated user
+    // Unregister authenticated user and forget their session achievements
+    clearSessionAchievements(socket.id);
     unregisterUser(socket.id);
   });
 });
 
 // ===== GAME LOOP INTERVALS =====
 
-/**
- * broadcast enemy positions to all clients
- */
-setInterval(() => {
-  for (const [roomId, game] of Object.entries(games)) {
-    const playerCount = Object.keys(game.players).length;
-    if (playerCount > 0) {
-      const roomEmitter = io.to(roomId);
-      roomEmitter.emit("clientUpdateAllEnemies", game.players);
-      
-      // only check for game end and send timer updates if game has actually started
-      if (game.gameStartTime) {
-        checkGameEnd(roomId, game, roomEmitter);
-        
-        const remainingTime = getRemainingTime(game);
-        roomEmitter.emit("timerUpdate", { remainingTime });
-      }
-    }
-  }
-}, GAME_CONFIG.ENEMY_UPDATE_RATE);
+// rooms whose previous tick is still awaiting I/O
+const simulatingRooms = new Set<string>();
 
 /**
- * update bullet positions and handle collisions
+ * fixed-rate simulation tick for every room
  */
 setInterval(() => {
   for (const [roomId, game] of Object.entries(games)) {
-    const bulletCount = Object.keys(game.bullets).length;
-    if (bulletCount > 0) {
-      updateBulletPosition(io.to(roomId), game.bullets, GAME_CONFIG.PHYSICS_DELTA_TIME);
-      bulletWallCollisions(game.walls, game.bullets);
-    }
+    if (simulatingRooms.has(roomId)) continue;
+
+    simulatingRooms.add(roomId);
+    simulateRoomTick(roomId, game)
+      .catch((error) => {
+        console.error(`❌ Simulation tick failed for room ${roomId}:`, error);
+      })
+      .finally(() => {
+        simulatingRooms.delete(roomId);
+      });
   }
-}, GAME_CONFIG.BULLET_UPDATE_RATE);
+}, GAME_CONFIG.SIMULATION_TICK_MS);
 
 /**
  * display room statistics in console
@@ -681,7 +1188,8 @@ setInterval(() => {
         .join(", ");
 
       const remainingTime = getRemainingTime(game);
-      const timeDisplay = game.gameEnded ? "ENDED" : `${Math.ceil(remainingTime)}s left`;
+      const timeLeft = Number.isFinite(remainingTime) ? `${Math.ceil(remainingTime)}s left` : "no time limit";
+      const timeDisplay = game.gameEnded ? "ENDED" : timeLeft;
 
       console.log(`\n🏠 Room: ${roomId} (${playerCount} chef${playerCount > 1 ? 's' : ''} cooking) - ${timeDisplay}`);
       
@@ -732,8 +1240,12 @@ async function startServer() {
     // Initialize Redis connection
     await initRedis();
     
-    // Initialize Supabase connection
+    // Initialize Supabase connection and make sure it knows every achievement
     initSupabase();
+    await syncAchievementCatalogue(getAchievementCatalogue());
+    
+    // Load every map in the rotation so a broken map file fails at startup
+    getMapIds().forEach(mapId => loadMap(mapId));
     
     // Start the HTTP server
     server.listen(SERVER_CONFIG.PORT, () => {
@@ -88,7 +88,10 @@ export async function setPlayerStats(
       shotsFired: stats.shotsFired.toString(),
       shotsHit: stats.shotsHit.toString(),
       timeAlive: stats.timeAlive.toString(),
-      gamesPlayed: stats.gamesPlayed.toString()
+      gamesPlayed: stats.gamesPlayed.toString(),
+      longestStreak: stats.longestStreak.toString(),
+      assists: stats.assists.toString(),
+      shutdowns: stats.shutdowns.toString()
     });
     
     // Set expiration for 1 hour (safety cleanup)
@@ -125,7 +128,10 @@ export async function getPlayerStats(
       shotsFired: parseInt(stats.shotsFired) || 0,
       shotsHit: parseInt(stats.shotsHit) || 0,
       timeAlive: parseInt(stats.timeAlive) || 0,
-      gamesPlayed: parseInt(stats.gamesPlayed) || 0
+      gamesPlayed: parseInt(stats.gamesPlayed) || 0,
+      longestStreak: parseInt(stats.longestStreak) || 0,
+      assists: parseInt(stats.assists) || 0,
+      shutdowns: parseInt(stats.shutdowns) || 0
     };
   } catch (error) {
     console.error(`❌ Failed to get player stats for ${playerId} in room ${roomId}:`, error);
@@ -159,7 +165,10 @@ export async function getAllPlayerStats(
           shotsFired: parseInt(stats.shotsFired) || 0,
           shotsHit: parseInt(stats.shotsHit) || 0,
           timeAlive: parseInt(stats.timeAlive) || 0,
-          gamesPlayed: parseInt(stats.gamesPlayed) || 0
+          gamesPlayed: parseInt(stats.gamesPlayed) || 0,
+          longestStreak: parseInt(stats.longestStreak) || 0,
+          assists: parseInt(stats.assists) || 0,
+          shutdowns: parseInt(stats.shutdowns) || 0
         });
       }
     }
@@ -217,6 +226,32 @@ export async function incrementPlayerStat(
   }
 }
 
+/**
+ * raises a stat field to a new value if it is higher than the stored one (used for records like longest streak)
+ */
+export async function raisePlayerStat(
+  roomId: string,
+  playerId: string,
+  field: keyof PlayerStats,
+  value: number
+): Promise<void> {
+  try {
+    const client = getRedisClient();
+    const key = `room:${roomId}:player:${playerId}:stats`;
+    
+    const current = Number(await client.hGet(key, field)) || 0;
+    if (value > current) {
+      await client.hSet(key, field, value.toString());
+    }
+    
+    // Refresh expiration
+    await client.expire(key, 3600);
+  } catch (error) {
+    console.error(`❌ Failed to raise ${field} for ${playerId} in room ${roomId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * initializes player stats in Redis if they don't exist
  */
@@ -242,7 +277,10 @@ export async function initializePlayerStats(
         shotsFired: '0',
         shotsHit: '0',
         timeAlive: '0',
-        gamesPlayed: '1'
+        gamesPlayed: '1',
+        longestStreak: '0',
+        assists: '0',
+        shutdowns: '0'
       });
       
       // Set expiration for 1 hour
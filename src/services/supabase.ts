@@ -1,6 +1,6 @@
 // handles saving end-game stats to Supabase for authenticated users
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import type { PlayerStats, UserInfo } from '../types/game.js';
+import type { AchievementDefinition, PlayerStats, UserInfo } from '../types/game.js';
 
 // ===== TYPES =====
 
@@ -28,11 +28,25 @@ export interface GameResult {
   shots_fired: number;
   shots_hit: number;
   time_alive: number;
+  longest_streak: number;
+  assists: number;
+  shutdowns: number;
   room_id: string;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * database schema for an achievement a user has unlocked
+ */
+export interface UserAchievement {
+  id?: number;
+  google_user_id: string;
+  achievement_id: string; // references achievements.id
+  room_id: string;
+  unlocked_at?: string;
+}
+
 /**
  * aggregated stats for a user across all games
  */
@@ -49,6 +63,8 @@ export interface UserStatsAggregate {
   avg_kdr: number;
   avg_accuracy: number;
   best_game_kills: number;
+  best_streak: number;
+  total_assists: number;
   last_played: string;
 }
 
@@ -325,6 +341,9 @@ export async function saveGameStats(
       shots_fired: stats.shotsFired,
       shots_hit: stats.shotsHit,
       time_alive: stats.timeAlive,
+      longest_streak: stats.longestStreak,
+      assists: stats.assists,
+      shutdowns: stats.shutdowns,
       room_id: roomId
     };
 
@@ -412,7 +431,7 @@ export async function getUserStatsAggregate(googleUserId: string): Promise<UserS
  * retrieves leaderboard data
  */
 export async function getLeaderboard(
-  metric: 'kills' | 'kdr' | 'accuracy' | 'time_alive' = 'kills',
+  metric: 'kills' | 'kdr' | 'accuracy' | 'time_alive' | 'assists' = 'kills',
   limit: number = 10
 ): Promise<UserStatsAggregate[]> {
   if (!supabase) {
@@ -439,6 +458,99 @@ export async function getLeaderboard(
   }
 }
 
+// ===== ACHIEVEMENT OPERATIONS =====
+
+/**
+ * writes the achievement catalogue to the achievements table so unlocks can reference it
+ */
+export async function syncAchievementCatalogue(achievements: AchievementDefinition[]): Promise<boolean> {
+  if (!supabase) {
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('achievements')
+      .upsert(achievements, { onConflict: 'id' });
+
+    if (error) {
+      console.error('❌ Failed to sync achievement catalogue:', error);
+      return false;
+    }
+
+    console.log(`✅ Synced ${achievements.length} achievements to Supabase`);
+    return true;
+
+  } catch (error) {
+    console.error('❌ Error syncing achievement catalogue:', error);
+    return false;
+  }
+}
+
+/**
+ * saves an achievement unlock for a user, unlocking it again is a no-op
+ */
+export async function saveAchievementUnlock(
+  googleUserId: string,
+  achievementId: string,
+  roomId: string
+): Promise<boolean> {
+  if (!supabase) {
+    return false;
+  }
+
+  try {
+    const unlock: Omit<UserAchievement, 'id' | 'unlocked_at'> = {
+      google_user_id: googleUserId,
+      achievement_id: achievementId,
+      room_id: roomId
+    };
+
+    const { error } = await supabase
+      .from('user_achievements')
+      .upsert([unlock], { onConflict: 'google_user_id,achievement_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error(`❌ Failed to save achievement ${achievementId} for Google user ${googleUserId}:`, error);
+      return false;
+    }
+
+    return true;
+
+  } catch (error) {
+    console.error(`❌ Error saving achievement ${achievementId} for Google user ${googleUserId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * retrieves the achievements a user has unlocked by Google user ID
+ */
+export async function getUserAchievements(googleUserId: string): Promise<UserAchievement[]> {
+  if (!supabase) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('google_user_id', googleUserId)
+      .order('unlocked_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Failed to fetch user achievements:', error);
+      return [];
+    }
+
+    return data || [];
+
+  } catch (error) {
+    console.error('❌ Error fetching user achievements:', error);
+    return [];
+  }
+}
+
 // ===== UTILITY FUNCTIONS =====
 
 /**
@@ -464,7 +576,7 @@ export function validateAndFormatStats(stats: PlayerStats): PlayerStats | null {
 
   // Ensure all numeric fields are valid
   const numericFields: (keyof PlayerStats)[] = [
-    'kills', 'deaths', 'damageDealt', 'shotsFired', 'shotsHit', 'timeAlive', 'gamesPlayed'
+    'kills', 'deaths', 'damageDealt', 'shotsFired', 'shotsHit', 'timeAlive', 'gamesPlayed', 'longestStreak', 'assists', 'shutdowns'
   ];
 
   for (const field of numericFields) {
@@ -481,7 +593,10 @@ export function validateAndFormatStats(stats: PlayerStats): PlayerStats | null {
     shotsFired: Math.floor(stats.shotsFired),
     shotsHit: Math.floor(stats.shotsHit),
     timeAlive: Math.floor(stats.timeAlive),
-    gamesPlayed: Math.floor(stats.gamesPlayed)
+    gamesPlayed: Math.floor(stats.gamesPlayed),
+    longestStreak: Math.floor(stats.longestStreak),
+    assists: Math.floor(stats.assists),
+    shutdowns: Math.floor(stats.shutdowns)
   };
 }
 
@@ -1,4 +1,9 @@
 <?xml version="1.0" encoding="UTF-8"?>
-<tileset version="1.10" tiledversion="1.10.1" name="tileset" tilewidth="64" tileheight="64" tilecount="2" columns="2">
- <image source="../../public/images/simple_textures.png" width="128" height="64"/>
+<tileset version="1.10" tiledversion="1.10.1" name="tileset" tilewidth="64" tileheight="64" tilecount="4" columns="4">
+ <image source="../../public/images/simple_textures.png" width="256" height="64"/>
+ <tile id="2">
+  <properties>
+   <property name="collides" type="bool" value="true"/>
+  </properties>
+ </tile>
 </tileset>
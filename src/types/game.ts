@@ -16,6 +16,9 @@ export interface PlayerStats {
   shotsHit: number;
   timeAlive: number; // in seconds
   gamesPlayed: number;
+  longestStreak: number; // most kills in a single life
+  assists: number; // kills this player helped with without landing the final hit
+  shutdowns: number; // kills that ended a streak of at least SHUTDOWN_STREAK
 }
 
 /**
@@ -26,6 +29,27 @@ export interface DeathInfo {
   killedByWeapon: string;
   timeAlive: number;
   finalStats: PlayerStats;
+  damageTaken: DamageTaken[]; // who hurt the player this life, most damage first
+}
+
+/**
+ * damage one attacker dealt to a player during one life
+ */
+export interface DamageTaken {
+  attackerId: string;
+  attackerName: string;
+  damage: number;
+  lastHitTime: number; // server timestamp of the attacker's latest hit, assists only count recent damage
+}
+
+/**
+ * magazine and reserve ammo for one carried weapon, owned by the server
+ */
+export interface AmmoState {
+  magazine: number;
+  reserve: number;
+  isReloading: boolean;
+  reloadStartTime: number; // server timestamp the current reload started, 0 when not reloading
 }
 
 /**
@@ -38,19 +62,74 @@ export interface ServerPlayer {
   y: number;
   rotation: number;
   health: number;
+  team: string | null; // team in team modes, null in free-for-all
+  carryingFlag: string | null; // team whose recipe book this player is carrying
+  spawnProtected: boolean; // shielded from bullets just after spawning, clients draw the shield
+  spawnProtectedUntil: number; // server timestamp the shield wears off
+  armor: number; // takes a share of incoming damage in modes with armor
+  lastDamageTime: number; // server timestamp of the last damage taken, regeneration waits for it
+  weaponId: string; // equipped weapon, always one of the carried weapons
+  weapons: Record<string, AmmoState>; // carried weapons and their ammo, in slot order
   stats: PlayerStats;
   sessionStartTime: number;
+  lastProcessedInput: number; // sequence of the last input applied, echoed for client reconciliation
+  killStreak: number; // kills this life
+  multiKill: number; // kills in the current multikill window
+  lastKillTime: number | null; // when this player last got a kill, opens the multikill window
+  damageTaken: Record<string, DamageTaken>; // damage taken this life, keyed by attacker id
   lastDeathInfo?: DeathInfo;
 }
 
+/**
+ * an achievement as clients and the database see it
+ */
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+}
+
+/**
+ * an achievement a player just unlocked, waiting to be sent to them
+ */
+export interface AchievementUnlock {
+  playerId: string;
+  achievement: AchievementDefinition;
+}
+
+/**
+ * per-room achievement progress for the current round
+ */
+export interface AchievementState {
+  firstBloodTaken: boolean; // whether the round's first kill has been scored
+  unbroken: Record<string, boolean>; // players alive since the round went live
+  unlocks: AchievementUnlock[]; // sent to their players at the end of the tick
+}
+
+/**
+ * a kill streak milestone, multikill or shutdown, sent with the "killstreak" event
+ */
+export interface KillstreakEvent {
+  playerId: string;
+  playerName: string;
+  type: "streak" | "multikill" | "shutdown";
+  streakName: string;
+  kills: number; // streak length, kills in the multikill, or the length of the streak that was ended
+}
+
 /**
  * input data received from client
  */
 export interface ClientPlayerInput {
   id: string;
   username: string;
+  sequence: number; // increases by one for every input the client sends
+  viewTime?: number; // server time of the world state the client was rendering, used for lag compensation
   rotation: number;
   mb1: boolean;
+  reload?: boolean; // true on the input where the player pressed reload
+  weaponSwitch?: string; // id of a carried weapon to equip
   keyboard: {
     w: boolean;
     a: boolean;
@@ -60,6 +139,23 @@ export interface ClientPlayerInput {
   };
 }
 
+/**
+ * input from a player waiting to be applied by the simulation tick
+ */
+export interface QueuedInput {
+  input: ClientPlayerInput;
+  receivedAt: number; // timestamp when the input arrived
+}
+
+/**
+ * player position recorded at the end of a simulation tick
+ */
+export interface PositionSample {
+  time: number; // server timestamp of the tick
+  x: number;
+  y: number;
+}
+
 /**
  * player bounding box for collision detection
  */
@@ -79,11 +175,186 @@ export interface BulletData {
   id: string;
   parent_id: string;
   parent_username: string;
-  x: number;
+  x: number; // center of the bullet
   y: number;
+  prevX: number; // center at the start of the current tick, the swept path runs from here to x/y
+  prevY: number;
   width: number;
   height: number;
   rotation: number;
+  weaponId: string; // weapon that fired this projectile
+  originX: number; // where the projectile was fired from, for range falloff
+  originY: number;
+  rewindMs: number; // how far back the shooter was seeing, hits are checked against targets this far in the past
+}
+
+/**
+ * earliest thing a bullet's swept path hit during a tick
+ */
+export interface BulletImpact {
+  targetId: string | null; // id of the player hit, null for a wall
+  x: number; // impact point
+  y: number;
+  t: number; // fraction of the tick's path travelled before impact (0-1)
+}
+
+// ===== WEAPON TYPES =====
+
+/**
+ * weapon definition from WEAPON_REGISTRY
+ */
+export interface WeaponDefinition {
+  NAME: string;
+  DAMAGE: number;
+  PROJECTILE_SPEED: number;
+  SPREAD: number;
+  PELLETS: number;
+  COOLDOWN_MS: number;
+  MAGAZINE_SIZE: number;
+  STARTING_RESERVE: number;
+  RELOAD_TIME_MS: number;
+  FALLOFF_START: number;
+  FALLOFF_END: number;
+  MIN_DAMAGE_MULTIPLIER: number;
+  MAX_RANGE: number;
+  PROJECTILE_SPRITE: string;
+  PROJECTILE_WIDTH: number;
+  PROJECTILE_HEIGHT: number;
+}
+
+// ===== GAME MODE TYPES =====
+
+/**
+ * rules of a game mode, looked up through GameState.modeId
+ * optional hooks keep free-for-all behaviour when missing
+ */
+export interface GameMode {
+  id: string;
+  name: string;
+  teams: boolean; // whether players are split into balanced teams
+  scoreLimit?: number; // team (or player, without teams) score that ends the round before time runs out
+  timeLimitMinutes?: number | null; // overrides GAME_DURATION_MINUTES, null plays until the score limit
+  hazardName?: string; // killer name for deaths from getHazardDamage
+  lockedLoadout?: boolean; // players only use the weapons the mode gives them, weapon pickups and drops are off
+  regeneration?: RegenerationRules | null; // out-of-combat healing, off when missing
+  armor?: ArmorRules | null; // armor that absorbs damage and can be picked up, off when missing
+  getDamageMultiplier(game: GameState, shooter: ServerPlayer, target: ServerPlayer): number; // 0 blocks the damage
+  supportsMap?(map: MapData): boolean; // modes needing map objectives are skipped on maps without them
+  onStart?(game: GameState): void; // sets up objectives when the room switches to this mode
+  onTick?(game: GameState, now: number): string[]; // advances objectives, returns announcements for the room
+  canSpawn?(game: GameState, playerId: string, now: number): boolean; // false keeps the player spectating
+  onSpawn?(game: GameState, player: ServerPlayer): void;
+  getHazardDamage?(game: GameState, player: ServerPlayer, now: number): number; // damage this tick from the environment
+  isRoundOver?(game: GameState, now: number): boolean; // ends the round on mode-specific win conditions
+  getWinnerId?(game: GameState): string | null; // winning player for modes not decided by score
+  onKill?(game: GameState, killer: ServerPlayer, victim: ServerPlayer, weaponId?: string): void; // weaponId fired the killing bullet
+  onPlayerRemoved?(game: GameState, player: ServerPlayer, now: number): string[]; // on death or disconnect, a disconnected player is already out of game.players
+}
+
+/**
+ * out-of-combat healing preset from VITALS_CONFIG
+ */
+export interface RegenerationRules {
+  DELAY_MS: number;
+  PER_SECOND: number;
+}
+
+/**
+ * armor preset from VITALS_CONFIG
+ */
+export interface ArmorRules {
+  MAX: number;
+  ABSORB_FRACTION: number;
+  ON_SPAWN: number;
+}
+
+/**
+ * mode and team scores sent to clients for the HUD, leaderboard and game-ended screen
+ */
+export interface GameModeSummary {
+  modeId: string;
+  name: string;
+  teams: string[]; // team ids, empty without teams
+  teamScores: Record<string, number>;
+  playerScores: Record<string, number>; // objective score per player id in modes without teams
+  scoreLimit: number | null; // score that wins the round early
+  winner: string | null; // winner's name in modes not decided by score, such as the last chef standing
+}
+
+// ===== BOT TYPES =====
+
+/**
+ * difficulty preset from BOT_CONFIG.DIFFICULTIES
+ */
+export interface BotDifficulty {
+  REACTION_MS: number;
+  AIM_SPREAD: number;
+  TRACKING_SPEED: number;
+}
+
+/**
+ * what a bot is doing, kept between ticks
+ */
+export interface BotState {
+  id: string;
+  username: string;
+  difficulty: string; // key of BOT_CONFIG.DIFFICULTIES
+  sequence: number; // sequence number of the last synthetic input
+  aimAngle: number; // direction the bot is looking in, radians from the +x axis
+  targetId: string | null; // enemy currently in sight
+  canFireAt: number; // reaction time ends, the bot may start shooting its target
+  goal: Coordinate | null; // where the bot is heading when no enemy is in sight
+  path: Coordinate[]; // remaining waypoints (world coordinates) towards its goal
+  nextPathAt: number; // when the path is recomputed
+  strafeDirection: 1 | -1;
+  nextStrafeAt: number;
+  respawnAt: number | null; // when a dead bot spawns again, null while alive
+}
+
+/**
+ * walkable cells of a map, one per tile, used by bot pathfinding
+ */
+export interface NavGrid {
+  columns: number;
+  rows: number;
+  cellSize: number; // world pixels per cell
+  walkable: boolean[]; // row-major, true where a player fits with its center on the cell's center
+}
+
+// ===== MATCH TYPES =====
+
+/**
+ * phases a room's match moves through
+ * warmup → countdown → live → round_end → intermission → countdown → ... until the match is decided
+ */
+export type MatchPhase = "warmup" | "countdown" | "live" | "round_end" | "intermission";
+
+/**
+ * best-of match made of several rounds of the room's mode
+ * a side is a team id in team modes, otherwise a player id
+ */
+export interface MatchState {
+  phase: MatchPhase;
+  phaseEndsAt: number | null; // when the current phase ends, null while warming up
+  round: number; // round being played or just finished, 0 before the first
+  roundWins: Record<string, number>; // rounds won per side
+  sideNames: Record<string, string>; // display name per side that has won a round
+  roundKills: Record<string, number>; // kills per side this round, decides rounds without objective scores
+  roundWinner: string | null; // side that won the last round, null for a draw
+}
+
+/**
+ * match phase and round scores sent to clients for phase banners
+ */
+export interface MatchSummary {
+  phase: MatchPhase;
+  remainingMs: number | null; // time left in the current phase, null while warming up
+  round: number;
+  totalRounds: number;
+  winsNeeded: number; // round wins that take the match
+  playersNeeded: number; // players still missing before warmup ends
+  roundWins: Array<{ side: string; name: string; wins: number }>;
+  roundWinner: string | null; // name of the last round's winner, null for a draw
 }
 
 // ===== GAME STATE TYPES =====
@@ -96,12 +367,124 @@ export interface GameState {
   bullets: Record<string, BulletData>;
   walls: Record<string, WallData>;
   lastPlayersShotTime: Record<string, number>;
-  gameStartTime?: number; // timestamp when the first player spawned
-  gameEndTime?: number; // timestamp when the game ended
-  gameEnded: boolean; // whether the game has ended
+  mapId: string; // registered map currently being played in this room
+  modeId: string; // registered game mode currently being played in this room
+  teams: Record<string, string>; // team per player id, kept across lives until the mode changes
+  teamScores: Record<string, number>; // score per team id in team modes
+  playerScores: Record<string, number>; // objective score per player id in modes without teams
+  recentDeaths: DeathLocation[]; // recent death positions, pruned during spawn selection
+  inputQueue: Record<string, QueuedInput[]>; // unapplied input per player in sequence order, each applied exactly once
+  inputBudget: Record<string, number>; // inputs each player may apply, one is earned per tick up to MAX_INPUT_BUDGET
+  positionHistory: Record<string, PositionSample[]>; // recent per-tick positions per player for lag compensation
+  wallIndex: SpatialHash<WallData>; // walls bucketed by grid cell, filled once as walls are added
+  pickups: Record<string, PickupData>; // map pickups and dropped weapons
+  flags: Record<string, FlagData>; // recipe book per team id in capture the flag, empty otherwise
+  hill: HillState | null; // the contested zone in king of the hill, null otherwise
+  royale: RoyaleState | null; // safe zone and survivors in battle royale, null otherwise
+  match: MatchState; // warmup, rounds and intermissions of the current match
+  spectators: Record<string, boolean>; // sockets watching the room without a player
+  achievements: AchievementState; // round progress towards achievements and unlocks waiting to be sent
+  bots: Record<string, BotState>; // brain per bot player id, bots are driven by the server instead of a socket
+  gameStartTime?: number; // timestamp when the current round went live
+  gameEndTime?: number; // timestamp when the match ended
+  gameEnded: boolean; // whether the match has ended
   // gameStats moved to Redis - no longer stored in memory
 }
 
+// ===== KING OF THE HILL TYPES =====
+
+/**
+ * rectangular zone from a map's hill object layer, in world coordinates (top-left)
+ */
+export interface HillZone {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * the zone being fought over and who holds it
+ * a side is a team id in team modes, otherwise a player id
+ */
+export interface HillState extends HillZone {
+  holderId: string | null; // side that took the zone, keeps it until another side takes it
+  holderName: string | null;
+  capturingId: string | null; // side currently filling the capture progress
+  capturingName: string | null;
+  captureMs: number; // time the capturing side has spent taking the zone
+  progress: number; // captureMs as a 0-1 fraction of the capture time, for the HUD
+  contested: boolean; // rival sides are standing in the zone
+  nextPointAt: number; // server time the holder scores its next point
+  updatedAt: number; // server time of the last occupancy check
+}
+
+// ===== BATTLE ROYALE TYPES =====
+
+/**
+ * circular safe zone that shrinks in phases (centers in world coordinates)
+ */
+export interface SafeZone {
+  x: number; // current circle
+  y: number;
+  radius: number;
+  startX: number; // circle when the current shrink began
+  startY: number;
+  startRadius: number;
+  targetX: number; // circle the current phase shrinks to
+  targetY: number;
+  targetRadius: number;
+  phase: number; // index into ROYALE_CONFIG.PHASES, PHASES.length once fully closed
+  shrinking: boolean;
+  phaseEndsAt: number | null; // server time the current wait or shrink ends, null before the round starts or once closed
+  damagePerSecond: number; // dealt to players outside the circle
+}
+
+/**
+ * battle royale round state, every chef gets one life
+ */
+export interface RoyaleState {
+  zone: SafeZone;
+  participants: Record<string, string>; // username per player id that spawned this round
+  eliminated: string[]; // participant ids in the order they were knocked out
+}
+
+// ===== CAPTURE THE FLAG TYPES =====
+
+/**
+ * a team's recipe book, at its base, carried by an enemy, or lying where its carrier fell
+ */
+export interface FlagData {
+  team: string; // team defending this recipe book
+  baseX: number; // center of the team's base
+  baseY: number;
+  x: number; // top-left of the collision box, follows the carrier while carried
+  y: number;
+  width: number;
+  height: number;
+  carrierId: string | null;
+  droppedAt: number | null; // server time it was dropped, null at base or while carried
+}
+
+// ===== PICKUP TYPES =====
+
+/**
+ * pickup lying in the world, placed by the map or dropped by a dead player
+ */
+export interface PickupData {
+  id: string;
+  kind: PickupKind;
+  item: string | null; // health item id or weapon id
+  x: number; // top-left of the collision box
+  y: number;
+  width: number;
+  height: number;
+  active: boolean; // false while waiting to respawn
+  respawnAt: number; // server time an inactive map pickup comes back
+  expiresAt: number | null; // server time a dropped pickup disappears, null for map pickups
+}
+
 // ===== WALL TYPES =====
 
 /**
@@ -115,6 +498,109 @@ export interface WallData {
   height: number;
 }
 
+// ===== MAP TYPES =====
+
+/**
+ * tileset referenced by a map, as needed to draw its tiles
+ */
+export interface TilesetData {
+  firstGid: number;
+  image: string | null; // url under public/, null if the image is not served
+  tileWidth: number;
+  tileHeight: number;
+  tileCount: number;
+  columns: number;
+}
+
+/**
+ * spawn point or spawn zone from a map's spawn object layer, in world coordinates
+ * points have zero width and height, zones spawn players at a random position inside
+ */
+export interface SpawnPoint {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  team: string | null; // only players on this team spawn here (ignored without teams), null for anyone
+  weight: number; // relative preference, 1 by default
+}
+
+/**
+ * where a player died, used to steer spawns away from active fights
+ */
+export interface DeathLocation {
+  x: number;
+  y: number;
+  time: number;
+}
+
+/**
+ * kind of item a pickup gives
+ */
+export type PickupKind = "health" | "ammo" | "weapon" | "armor";
+
+/**
+ * a team's base from a map's flag object layer, in world coordinates (center of the base)
+ */
+export interface FlagBase {
+  team: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * pickup point from a map's pickup object layer, in world coordinates (center of the pickup)
+ */
+export interface PickupSpawn {
+  id: string;
+  x: number;
+  y: number;
+  kind: PickupKind;
+  item: string | null; // health item id for health pickups, weapon id for weapon pickups
+}
+
+/**
+ * map loaded from a Tiled .tmx file, shared with clients through the map API
+ */
+export interface MapData {
+  id: string;
+  name: string; // display name from the map registry
+  width: number; // in tiles
+  height: number;
+  tileWidth: number; // in pixels before scaling
+  tileHeight: number;
+  scale: number; // world pixels per map pixel
+  layers: number[][][]; // tile gids per layer, indexed [row][column]
+  tilesets: TilesetData[];
+  walls: Record<string, WallData>; // collision rectangles in world coordinates
+  spawnPoints: SpawnPoint[]; // centers (or zones) where players appear
+  pickupSpawns: PickupSpawn[]; // where map pickups are placed
+  flagBases: FlagBase[]; // team bases for capture the flag, empty if the map has none
+  hillZones: HillZone[]; // zones for king of the hill, empty if the map has none
+}
+
+// ===== SPATIAL TYPES =====
+
+/**
+ * anything with an id and an axis-aligned box that can be stored in a spatial hash
+ */
+export interface SpatialItem {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * uniform grid of square cells, each listing the items that overlap it
+ */
+export interface SpatialHash<T extends SpatialItem> {
+  cellSize: number;
+  cells: Map<string, T[]>;
+}
+
 // ===== AUTHENTICATION TYPES =====
 
 /**